@@ -0,0 +1,250 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  formatDayLong,
+  formatDayShort,
+  formatMonth,
+  formatTime,
+  overlapsDay,
+  sameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  WEEKDAYS_SHORT,
+} from "../../lib/calendar";
+import type { ScoutEvent } from "../../lib/events";
+import { expandAll } from "../../lib/recurrence";
+
+type View = "month" | "week" | "agenda";
+
+const VIEW_LABEL: Record<View, string> = { month: "Mese", week: "Settimana", agenda: "Agenda" };
+
+// le occorrenze di un evento ricorrente condividono l'id: la chiave include la data
+const eventKey = (ev: ScoutEvent) => `${ev.roomId}/${ev.id}/${ev.occurrence ?? ""}`;
+
+// giorni visibili nella vista: [from, to)
+function visibleRange(view: View, cursor: Date) {
+  if (view === "week") {
+    const from = startOfWeek(cursor);
+    return { from, to: addDays(from, 7) };
+  }
+  if (view === "agenda") return { from: startOfMonth(cursor), to: addMonths(cursor, 1) };
+  const from = startOfWeek(startOfMonth(cursor));
+  return { from, to: addDays(from, 42) };
+}
+
+function eventsOn(events: ScoutEvent[], day: Date) {
+  return events.filter((ev) => overlapsDay(ev.start, ev.end, day));
+}
+
+// Vista calendario (mese / settimana / agenda) con navigazione; il dettaglio lo disegna chi la usa
+export default function CalendarViews({
+  events: allEvents,
+  renderCard,
+}: {
+  events: ScoutEvent[];
+  renderCard: (ev: ScoutEvent) => React.ReactNode;
+}) {
+  const [view, setView] = useState<View>("month");
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const today = startOfDay(new Date());
+
+  const move = (dir: -1 | 1) => {
+    setSelected(null);
+    setCursor((c) => (view === "week" ? addDays(c, 7 * dir) : addMonths(c, dir)));
+  };
+
+  const title = useMemo(() => {
+    if (view !== "week") return formatMonth(cursor);
+    const from = startOfWeek(cursor);
+    return `${formatDayShort(from)} – ${formatDayShort(addDays(from, 6))}`;
+  }, [view, cursor]);
+
+  const events = useMemo(() => {
+    const { from, to } = visibleRange(view, cursor);
+    return expandAll(allEvents, from, to);
+  }, [allEvents, view, cursor]);
+
+  const selectedEvent = events.find((ev) => eventKey(ev) === selected) ?? null;
+
+  const chip = (ev: ScoutEvent, day: Date) => (
+    <button
+      key={eventKey(ev)}
+      onClick={() => setSelected(eventKey(ev))}
+      title={ev.title}
+      style={{
+        ...eventChip,
+        outline: selected === eventKey(ev) ? "2px solid var(--text)" : "none",
+        textDecoration: ev.cancelled ? "line-through" : "none",
+        opacity: ev.cancelled ? 0.6 : 1,
+      }}
+    >
+      {!ev.allDay && sameDay(ev.start, day) ? `${formatTime(ev.start)} ` : ""}
+      {ev.title}
+    </button>
+  );
+
+  return (
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <button className="ui-btn" onClick={() => move(-1)} title="Precedente">
+            ◀
+          </button>
+          <button
+            className="ui-btn"
+            onClick={() => {
+              setSelected(null);
+              setCursor(today);
+            }}
+          >
+            Oggi
+          </button>
+          <button className="ui-btn" onClick={() => move(1)} title="Successivo">
+            ▶
+          </button>
+          <div style={{ fontWeight: 900, marginLeft: 6, textTransform: "capitalize" }}>{title}</div>
+        </div>
+
+        <div style={{ display: "flex", gap: 6 }}>
+          {(Object.keys(VIEW_LABEL) as View[]).map((v) => (
+            <button
+              key={v}
+              className={view === v ? "ui-btn-primary" : "ui-btn"}
+              onClick={() => {
+                setSelected(null);
+                setView(v);
+              }}
+            >
+              {VIEW_LABEL[v]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === "month" && (
+        <div style={{ marginTop: 12 }}>
+          <div style={grid7}>
+            {WEEKDAYS_SHORT.map((d) => (
+              <div key={d} style={{ fontSize: 12, color: "var(--muted)", fontWeight: 900, textAlign: "center" }}>
+                {d}
+              </div>
+            ))}
+          </div>
+          <div style={{ ...grid7, marginTop: 6 }}>
+            {Array.from({ length: 42 }, (_, i) => addDays(startOfWeek(startOfMonth(cursor)), i)).map((day) => {
+              const list = eventsOn(events, day);
+              const inMonth = day.getMonth() === cursor.getMonth();
+              return (
+                <div
+                  key={day.getTime()}
+                  style={{
+                    ...dayCell,
+                    opacity: inMonth ? 1 : 0.45,
+                    borderColor: sameDay(day, today) ? "var(--primary-bg)" : "var(--border)",
+                  }}
+                >
+                  <div style={{ fontSize: 12, fontWeight: 900 }}>{day.getDate()}</div>
+                  {list.slice(0, 3).map((ev) => chip(ev, day))}
+                  {list.length > 3 && (
+                    <div style={{ fontSize: 11, color: "var(--muted)" }}>+{list.length - 3} altri</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {view === "week" && (
+        <div style={{ ...grid7, marginTop: 12 }}>
+          {Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(cursor), i)).map((day) => (
+            <div
+              key={day.getTime()}
+              style={{
+                ...dayCell,
+                minHeight: 160,
+                borderColor: sameDay(day, today) ? "var(--primary-bg)" : "var(--border)",
+              }}
+            >
+              <div style={{ fontSize: 12, fontWeight: 900 }}>{formatDayShort(day)}</div>
+              {eventsOn(events, day).map((ev) => chip(ev, day))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view === "agenda" && (
+        <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
+          {(() => {
+            const from = startOfMonth(cursor);
+            const days = Array.from({ length: 31 }, (_, i) => addDays(from, i)).filter(
+              (d) => d.getMonth() === cursor.getMonth()
+            );
+            const groups = days
+              .map((day) => ({ day, list: eventsOn(events, day) }))
+              .filter((g) => g.list.length > 0);
+
+            if (groups.length === 0) {
+              return <div style={{ color: "var(--muted)" }}>Nessun evento in questo mese.</div>;
+            }
+
+            return groups.map((g) => (
+              <div key={g.day.getTime()} style={{ display: "grid", gap: 8 }}>
+                <div style={{ fontWeight: 900, textTransform: "capitalize" }}>{formatDayLong(g.day)}</div>
+                {g.list.map((ev) => (
+                  <div key={eventKey(ev)}>{renderCard(ev)}</div>
+                ))}
+              </div>
+            ));
+          })()}
+        </div>
+      )}
+
+      {view !== "agenda" && selectedEvent && (
+        <div key={eventKey(selectedEvent)} style={{ marginTop: 12 }}>
+          {renderCard(selectedEvent)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const grid7: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(7, minmax(0, 1fr))",
+  gap: 4,
+};
+
+const dayCell: React.CSSProperties = {
+  border: "2px solid var(--border)",
+  borderRadius: 10,
+  padding: 4,
+  minHeight: 84,
+  display: "flex",
+  flexDirection: "column",
+  gap: 3,
+  overflow: "hidden",
+};
+
+const eventChip: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  textAlign: "left",
+  fontSize: 11,
+  fontWeight: 700,
+  padding: "2px 4px",
+  borderRadius: 6,
+  border: "none",
+  background: "var(--primary-bg)",
+  color: "var(--primary-text)",
+  whiteSpace: "nowrap",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  cursor: "pointer",
+};
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  setPresent,
+  setRsvp,
+  skipOccurrence,
+  subscribeAttendance,
+  subscribeRsvps,
+  type Attendance,
+  type Rsvp,
+  type RsvpStatus,
+  type ScoutEvent,
+} from "../../lib/events";
+import { occurrenceKey } from "../../lib/recurrence";
+
+export type RsvpMember = { uid: string; name: string };
+
+const STATUS_LABEL: Record<RsvpStatus, string> = {
+  yes: "✅ Ci sono",
+  maybe: "🤔 Forse",
+  no: "❌ Non ci sono",
+};
+
+const STATUS_ICON: Record<RsvpStatus, string> = { yes: "✅", maybe: "🤔", no: "❌" };
+
+// Risposte (RSVP) e presenze di una singola occorrenza dell'evento
+export default function EventRsvp({
+  ev,
+  user,
+  canManage,
+  members = [],
+}: {
+  ev: ScoutEvent;
+  user: RsvpMember | null;
+  canManage: boolean;
+  members?: RsvpMember[];
+}) {
+  const occurrence = ev.occurrence ?? occurrenceKey(ev.start);
+  const past = ev.end.getTime() < Date.now();
+
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [attendance, setAttendance] = useState<Attendance | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    return subscribeRsvps(ev.roomId, ev.id, occurrence, setRsvps);
+  }, [ev.roomId, ev.id, occurrence]);
+
+  // le presenze si segnano solo a evento finito
+  useEffect(() => {
+    if (!past) return;
+    return subscribeAttendance(ev.roomId, ev.id, occurrence, setAttendance);
+  }, [ev.roomId, ev.id, occurrence, past]);
+
+  const mine = user ? rsvps.find((r) => r.uid === user.uid) ?? null : null;
+  const noteValue = note ?? mine?.note ?? "";
+  const count = (s: RsvpStatus) => rsvps.filter((r) => r.status === s).length;
+
+  const answer = async (status: RsvpStatus) => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await setRsvp(ev.roomId, ev.id, occurrence, user, status, noteValue);
+      setNote(null);
+    } catch {
+      alert("Errore salvando la risposta.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePresent = async (uid: string, present: boolean) => {
+    if (!user) return;
+    try {
+      await setPresent(ev.roomId, ev.id, occurrence, user.uid, uid, present);
+    } catch {
+      alert("Errore segnando la presenza.");
+    }
+  };
+
+  const skip = async () => {
+    if (!confirm("Saltare questa data? Le altre date restano.")) return;
+    try {
+      await skipOccurrence(ev.roomId, ev.id, occurrence);
+    } catch {
+      alert("Errore saltando la data.");
+    }
+  };
+
+  const present = attendance?.present ?? [];
+  const answered = new Map(rsvps.map((r) => [r.uid, r.status]));
+
+  return (
+    <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+      <div style={{ fontSize: 14, fontWeight: 700 }}>
+        {STATUS_ICON.yes} {count("yes")} • {STATUS_ICON.maybe} {count("maybe")} • {STATUS_ICON.no} {count("no")}
+        {past && attendance && <span style={{ color: "var(--muted)" }}> • presenti {present.length}</span>}
+      </div>
+
+      {user && !past && !ev.cancelled && (
+        <>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {(Object.keys(STATUS_LABEL) as RsvpStatus[]).map((s) => (
+              <button
+                key={s}
+                className={mine?.status === s ? "ui-btn-primary" : "ui-btn"}
+                disabled={saving}
+                onClick={() => answer(s)}
+              >
+                {STATUS_LABEL[s]}
+              </button>
+            ))}
+          </div>
+          <input
+            className="ui-input"
+            placeholder="Nota (es: arrivo alle 16)"
+            value={noteValue}
+            onChange={(e) => setNote(e.target.value)}
+            onBlur={() => mine && note !== null && note !== (mine.note ?? "") && answer(mine.status)}
+          />
+        </>
+      )}
+
+      {rsvps.length > 0 && (
+        <details>
+          <summary style={{ cursor: "pointer", fontSize: 13, color: "var(--muted)" }}>Chi ha risposto</summary>
+          <div style={{ marginTop: 6, display: "grid", gap: 4, fontSize: 13 }}>
+            {rsvps.map((r) => (
+              <div key={r.uid}>
+                {STATUS_ICON[r.status]} <b>{r.name}</b>
+                {r.note && <span style={{ color: "var(--muted)" }}> — {r.note}</span>}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      {canManage && past && members.length > 0 && (
+        <details>
+          <summary style={{ cursor: "pointer", fontSize: 13, fontWeight: 700 }}>📋 Segna presenze</summary>
+          <div style={{ marginTop: 6, display: "grid", gap: 4 }}>
+            {members.map((m) => (
+              <label key={m.uid} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 14 }}>
+                <input
+                  type="checkbox"
+                  checked={present.includes(m.uid)}
+                  onChange={(e) => togglePresent(m.uid, e.target.checked)}
+                />
+                {m.name}
+                {answered.has(m.uid) && (
+                  <span style={{ color: "var(--muted)", fontSize: 12 }}>({STATUS_ICON[answered.get(m.uid)!]})</span>
+                )}
+              </label>
+            ))}
+          </div>
+        </details>
+      )}
+
+      {canManage && ev.recurrence && !past && !ev.cancelled && (
+        <button className="ui-btn" onClick={skip}>
+          ⏭ Salta questa data
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,477 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  addDays,
+  formatDayShort,
+  formatRange,
+  formatTime,
+  fromInput,
+  localTimeZone,
+  startOfDay,
+  toDateInput,
+  toDateTimeInput,
+} from "../../lib/calendar";
+import {
+  createRoomEvent,
+  deleteRoomEvent,
+  setEventCancelled,
+  subscribeEventHistory,
+  updateRoomEvent,
+  type EventChange,
+  type NewScoutEvent,
+  type ScoutEvent,
+} from "../../lib/events";
+import { useMembers, useRoomEvents } from "../../lib/hooks";
+import { downloadIcs, eventsToIcs, icsFileName, parseIcs, singleOccurrence } from "../../lib/ics";
+import { FREQ_LABEL, type RecurrenceFreq } from "../../lib/recurrence";
+import CalendarViews from "./CalendarViews";
+import EventRsvp, { type RsvpMember } from "./EventRsvp";
+
+type EventUser = { uid: string; name: string };
+
+// valori iniziali del form: vuoto per un nuovo evento, l'evento (intero, non l'occorrenza) in modifica
+function formValues(ev?: ScoutEvent) {
+  if (!ev) return { startStr: "", endStr: "", untilStr: "" };
+  const fmt = ev.allDay ? toDateInput : toDateTimeInput;
+  // per gli eventi "tutto il giorno" il form mostra l'ultimo giorno incluso
+  const end = ev.allDay ? addDays(startOfDay(ev.end), -1) : ev.end;
+  return {
+    startStr: fmt(ev.start),
+    endStr: fmt(end < ev.start ? ev.start : end),
+    untilStr: ev.recurrence?.until ? toDateInput(ev.recurrence.until) : "",
+  };
+}
+
+export function EventForm({
+  initial,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: ScoutEvent;
+  onSubmit: (ev: NewScoutEvent) => Promise<unknown>;
+  onCancel?: () => void;
+}) {
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [place, setPlace] = useState(initial?.place ?? "");
+  const [allDay, setAllDay] = useState(initial?.allDay ?? false);
+  const [startStr, setStartStr] = useState(() => formValues(initial).startStr);
+  const [endStr, setEndStr] = useState(() => formValues(initial).endStr);
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [freq, setFreq] = useState<RecurrenceFreq | "">(initial?.recurrence?.freq ?? "");
+  const [untilStr, setUntilStr] = useState(() => formValues(initial).untilStr);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    const start = fromInput(startStr);
+    if (!title.trim() || !start) {
+      alert("Titolo e data di inizio sono obbligatori.");
+      return;
+    }
+    // senza fine: un'ora (o lo stesso giorno se tutto il giorno)
+    const end = fromInput(endStr) ?? (allDay ? start : new Date(start.getTime() + 60 * 60 * 1000));
+    if (end < start) {
+      alert("La fine deve essere dopo l'inizio.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const repeat = freq ? { freq, until: fromInput(untilStr) } : null;
+      await onSubmit({ title, place, description, start, end, allDay, repeat });
+      if (initial) return;
+      setTitle("");
+      setPlace("");
+      setStartStr("");
+      setEndStr("");
+      setAllDay(false);
+      setDescription("");
+      setFreq("");
+      setUntilStr("");
+    } catch {
+      alert(initial ? "Errore salvando le modifiche." : "Errore creando l'evento.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
+      <input
+        className="ui-input"
+        placeholder="Titolo evento (es: Uscita al lago)"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+
+      <input
+        className="ui-input"
+        placeholder="Luogo (es: Monte Livata)"
+        value={place}
+        onChange={(e) => setPlace(e.target.value)}
+      />
+
+      <label style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 700 }}>
+        <input
+          type="checkbox"
+          checked={allDay}
+          onChange={(e) => {
+            const on = e.target.checked;
+            setAllDay(on);
+            // stessi giorni, senza/con orario
+            setStartStr((v) => (on ? v.slice(0, 10) : v && `${v.slice(0, 10)}T09:00`));
+            setEndStr((v) => (on ? v.slice(0, 10) : v && `${v.slice(0, 10)}T10:00`));
+          }}
+        />
+        Tutto il giorno (anche più giorni, es. campi)
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Inizio
+          <input
+            className="ui-input"
+            type={allDay ? "date" : "datetime-local"}
+            value={startStr}
+            onChange={(e) => setStartStr(e.target.value)}
+          />
+        </label>
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Fine
+          <input
+            className="ui-input"
+            type={allDay ? "date" : "datetime-local"}
+            value={endStr}
+            min={startStr || undefined}
+            onChange={(e) => setEndStr(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Ripeti
+          <select className="ui-input" value={freq} onChange={(e) => setFreq(e.target.value as RecurrenceFreq | "")}>
+            <option value="">Non si ripete</option>
+            {(Object.keys(FREQ_LABEL) as RecurrenceFreq[]).map((f) => (
+              <option key={f} value={f}>
+                {FREQ_LABEL[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Fino al (facoltativo)
+          <input
+            className="ui-input"
+            type="date"
+            value={untilStr}
+            min={startStr.slice(0, 10) || undefined}
+            disabled={!freq}
+            onChange={(e) => setUntilStr(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <textarea
+        className="ui-input"
+        placeholder="Descrizione / Note"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        style={{ minHeight: 100 }}
+      />
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button className="ui-btn-primary" onClick={submit} disabled={saving}>
+          {saving ? "Salvo…" : initial ? "Salva modifiche" : "Crea evento"}
+        </button>
+        {onCancel && (
+          <button className="ui-btn" onClick={onCancel} disabled={saving}>
+            Annulla
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// storico delle modifiche, caricato solo quando lo si apre
+function EventHistory({ roomId, eventId }: { roomId: string; eventId: string }) {
+  const [list, setList] = useState<EventChange[] | null>(null);
+
+  useEffect(() => subscribeEventHistory(roomId, eventId, setList), [roomId, eventId]);
+
+  if (!list) return <div style={{ fontSize: 13, color: "var(--muted)" }}>Carico…</div>;
+  if (list.length === 0) return <div style={{ fontSize: 13, color: "var(--muted)" }}>Nessuna modifica.</div>;
+  return (
+    <div style={{ display: "grid", gap: 4, fontSize: 13 }}>
+      {list.map((c) => (
+        <div key={c.id}>
+          <span style={{ color: "var(--muted)" }}>
+            {c.at ? `${formatDayShort(c.at)} ${formatTime(c.at)}` : "…"} • {c.byName}:
+          </span>{" "}
+          {c.summary}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function EventCard({
+  ev,
+  roomName,
+  onRemove,
+  onEdit,
+  onToggleCancel,
+  footer,
+}: {
+  ev: ScoutEvent;
+  roomName?: string;
+  onRemove?: () => void;
+  onEdit?: () => void;
+  onToggleCancel?: () => void;
+  footer?: React.ReactNode;
+}) {
+  const [showHistory, setShowHistory] = useState(false);
+
+  return (
+    <div
+      style={{
+        border: "2px solid var(--border)",
+        borderRadius: 12,
+        padding: 12,
+      }}
+    >
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 900, fontSize: 16, textDecoration: ev.cancelled ? "line-through" : "none" }}>
+          {ev.title}
+        </div>
+        {ev.cancelled && <span className="ui-pill">❌ Annullato</span>}
+      </div>
+
+      {roomName && (
+        <div style={{ marginTop: 6 }}>
+          <a className="ui-pill" href={`/room/${ev.roomId}`}>
+            🏕 {roomName}
+          </a>
+        </div>
+      )}
+
+      <div style={{ marginTop: 6, color: "var(--muted)" }}>
+        📍 {ev.place || "Nessun luogo"} <br />
+        🕒 {formatRange(ev.start, ev.end, ev.allDay)}
+        {!ev.allDay && ev.timeZone !== localTimeZone() && <> (ora locale; creato in {ev.timeZone})</>}
+        {ev.recurrence && (
+          <>
+            <br />
+            🔁 {FREQ_LABEL[ev.recurrence.freq]}
+            {ev.recurrence.until && <> fino al {formatDayShort(ev.recurrence.until)}</>}
+          </>
+        )}
+      </div>
+
+      {ev.description && <div style={{ marginTop: 10, fontSize: 14 }}>{ev.description}</div>}
+
+      <div style={{ marginTop: 10, display: "flex", gap: 6, flexWrap: "wrap" }}>
+        <button
+          className="ui-btn"
+          onClick={() => downloadIcs(icsFileName(ev.title), eventsToIcs([singleOccurrence(ev)], roomName ?? ev.title))}
+        >
+          📅 Aggiungi al calendario
+        </button>
+        {onEdit && (
+          <button className="ui-btn" onClick={onEdit}>
+            ✏️ Modifica
+          </button>
+        )}
+        {onToggleCancel && (
+          <button className="ui-btn" onClick={onToggleCancel}>
+            {ev.cancelled ? "↩️ Ripristina" : "❌ Annulla evento"}
+          </button>
+        )}
+        {onRemove && (
+          <button className="ui-btn" onClick={onRemove}>
+            🗑 Elimina
+          </button>
+        )}
+        {ev.updatedAt != null && (
+          <button className="ui-btn" onClick={() => setShowHistory((v) => !v)}>
+            🕘 Modifiche
+          </button>
+        )}
+      </div>
+
+      {showHistory && (
+        <div style={{ marginTop: 8 }}>
+          <EventHistory roomId={ev.roomId} eventId={ev.id} />
+        </div>
+      )}
+
+      {footer}
+    </div>
+  );
+}
+
+// Calendario della room: gli admin creano, modificano e annullano, admin o autore eliminano;
+// tutti i membri rispondono. readOnly: room archiviata, si consulta soltanto
+export default function RoomEvents({
+  roomId,
+  roomName,
+  user,
+  canManage,
+  readOnly = false,
+}: {
+  roomId: string;
+  roomName: string;
+  user: EventUser | null;
+  canManage: boolean;
+  readOnly?: boolean;
+}) {
+  const events = useRoomEvents(roomId);
+  // elenco per segnare le presenze (solo admin)
+  const roomMembers = useMembers(roomId, canManage);
+  const members = useMemo<RsvpMember[]>(
+    () => roomMembers.map((m) => ({ uid: m.uid, name: m.name })).sort((a, b) => a.name.localeCompare(b.name)),
+    [roomMembers]
+  );
+  const [importing, setImporting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement | null>(null);
+
+  const removeEvent = async (ev: ScoutEvent) => {
+    const msg = ev.recurrence ? "Vuoi eliminare l'evento con tutte le sue date?" : "Vuoi eliminare questo evento?";
+    if (!confirm(msg)) return;
+    try {
+      await deleteRoomEvent(roomId, ev.id);
+    } catch {
+      alert("Errore eliminando l'evento.");
+    }
+  };
+
+  // le card ricevono l'occorrenza: modifiche e annullamenti valgono per l'evento intero
+  const seriesOf = (ev: ScoutEvent) => events.find((e) => e.id === ev.id) ?? ev;
+
+  const saveEdit = async (before: ScoutEvent, after: NewScoutEvent) => {
+    if (!user) return;
+    await updateRoomEvent(roomId, user, before, after);
+    setEditingId(null);
+  };
+
+  const toggleCancel = async (ev: ScoutEvent) => {
+    if (!user) return;
+    const series = seriesOf(ev);
+    const question = series.cancelled
+      ? "Ripristinare l'evento? Verrà avvisata la chat."
+      : series.recurrence
+        ? "Annullare l'evento con tutte le sue date? Verrà avvisata la chat. (Per una sola data usa \"Salta questa data\".)"
+        : "Annullare l'evento? Resta visibile come annullato e verrà avvisata la chat.";
+    if (!confirm(question)) return;
+    try {
+      await setEventCancelled(roomId, user, series, !series.cancelled);
+    } catch {
+      alert("Errore aggiornando l'evento.");
+    }
+  };
+
+  // l'evento intero (non le singole occorrenze): la ricorrenza va nel file come RRULE
+  const exportAll = () => downloadIcs(icsFileName(roomName), eventsToIcs(events, roomName));
+
+  const importFile = async (file: File) => {
+    if (!user) return;
+    let parsed;
+    try {
+      parsed = parseIcs(await file.text());
+    } catch {
+      alert("File .ics non valido.");
+      return;
+    }
+    if (parsed.events.length === 0) {
+      alert("Nessun evento trovato nel file.");
+      return;
+    }
+
+    const cancelled = parsed.events.filter((ev) => ev.cancelled).length;
+    const notes = [
+      parsed.skipped > 0 && `${parsed.skipped} eventi ignorati (senza data o modifiche di singole date)`,
+      cancelled > 0 && `${cancelled} eventi importati come annullati`,
+      parsed.simplified > 0 && `${parsed.simplified} ricorrenze non supportate diventano eventi singoli`,
+    ].filter(Boolean);
+    if (!confirm([`Importare ${parsed.events.length} eventi in questa room?`, ...notes].join("\n"))) return;
+
+    setImporting(true);
+    let failed = 0;
+    for (const ev of parsed.events) {
+      try {
+        await createRoomEvent(roomId, user, ev);
+      } catch {
+        failed++;
+      }
+    }
+    setImporting(false);
+    if (failed > 0) alert(`${failed} eventi non importati.`);
+  };
+
+  return (
+    <>
+      {canManage && user && (
+        <div className="ui-card" style={{ marginTop: 16 }}>
+          <div style={{ fontWeight: 900, fontSize: 18 }}>➕ Crea nuovo evento</div>
+          <EventForm onSubmit={(ev) => createRoomEvent(roomId, user, ev)} />
+
+          <div style={{ marginTop: 12, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <button className="ui-btn" disabled={importing} onClick={() => importInput.current?.click()}>
+              {importing ? "Importo…" : "📥 Importa .ics"}
+            </button>
+            <span style={{ fontSize: 12, color: "var(--muted)" }}>Es. esportato da Google Calendar</span>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".ics,text/calendar"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importFile(file);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="ui-card" style={{ marginTop: 16 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+          <div style={{ fontWeight: 900, fontSize: 18 }}>📌 Eventi programmati</div>
+          <button className="ui-btn" onClick={exportAll} disabled={events.length === 0}>
+            ⬇️ Esporta .ics
+          </button>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <CalendarViews
+            events={events}
+            renderCard={(ev) =>
+              editingId === ev.id && user ? (
+                <div style={{ border: "2px solid var(--border)", borderRadius: 12, padding: 12 }}>
+                  <div style={{ fontWeight: 900 }}>✏️ Modifica evento</div>
+                  <EventForm
+                    initial={seriesOf(ev)}
+                    onSubmit={(after) => saveEdit(seriesOf(ev), after)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <EventCard
+                  ev={ev}
+                  onRemove={user && !readOnly && (canManage || ev.createdBy === user.uid) ? () => removeEvent(ev) : undefined}
+                  onEdit={canManage ? () => setEditingId(ev.id) : undefined}
+                  onToggleCancel={canManage ? () => toggleCancel(ev) : undefined}
+                  footer={<EventRsvp ev={ev} user={readOnly ? null : user} canManage={canManage} members={members} />}
+                />
+              )
+            }
+          />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,99 +1,43 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { onAuthStateChanged } from "firebase/auth";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-} from "firebase/firestore";
-import { auth, db } from "../../lib/firebase";
-import { useTheme } from "../providers";
-
-type ScoutEvent = {
-  id: string;
-  title: string;
-  description: string;
-  place: string;
-  date: string; // datetime-local string
-  createdAt?: any;
-  createdBy?: string;
-};
-
+import { useEffect, useMemo, useState } from "react";
+import { sortEvents, subscribeRoomEvents, type ScoutEvent } from "../../lib/events";
+import { downloadIcs, eventsToIcs } from "../../lib/ics";
+import { useUserRooms } from "../../lib/hooks";
+import { useAuth, useTheme } from "../providers";
+import CalendarViews from "./CalendarViews";
+import EventRsvp from "./EventRsvp";
+import { EventCard } from "./RoomEvents";
+
+// "Il mio calendario": eventi di tutte le room salvate (si creano dentro la room)
 export default function CalendarPage() {
   const { theme, toggleTheme } = useTheme();
 
-  const [user, setUser] = useState<any>(null);
-  const [events, setEvents] = useState<ScoutEvent[]>([]);
+  const { user } = useAuth();
+  const [eventsByRoom, setEventsByRoom] = useState<Record<string, { name: string; events: ScoutEvent[] }>>({});
 
-  const [title, setTitle] = useState("");
-  const [place, setPlace] = useState("");
-  const [date, setDate] = useState("");
-  const [description, setDescription] = useState("");
+  const userUid = user?.uid ?? null;
+  const rooms = useUserRooms(userUid);
 
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u) => setUser(u));
-    return () => unsub();
-  }, []);
-
-  useEffect(() => {
-    const q = query(collection(db, "events"), orderBy("date", "asc"));
-    const unsub = onSnapshot(q, (snap) => {
-      const list: ScoutEvent[] = snap.docs.map((d) => {
-        const data = d.data() as any;
-        return {
-          id: d.id,
-          title: data.title || "",
-          place: data.place || "",
-          date: data.date || "",
-          description: data.description || "",
-          createdAt: data.createdAt,
-          createdBy: data.createdBy,
-        };
-      });
-      setEvents(list);
-    });
-
-    return () => unsub();
-  }, []);
-
-  const createEvent = async () => {
-    if (!user) {
-      alert("Devi fare login per creare eventi.");
-      return;
-    }
-
-    if (!title.trim() || !date.trim()) {
-      alert("Titolo e data sono obbligatori.");
-      return;
-    }
-
-    await addDoc(collection(db, "events"), {
-      title: title.trim(),
-      place: place.trim(),
-      date: date.trim(),
-      description: description.trim(),
-      createdAt: serverTimestamp(),
-      createdBy: user.uid,
-    });
-
-    setTitle("");
-    setPlace("");
-    setDate("");
-    setDescription("");
-  };
-
-  const removeEvent = async (id: string) => {
-    if (!user) return;
-    if (!confirm("Vuoi eliminare questo evento?")) return;
-
-    await deleteDoc(doc(db, "events", id));
-  };
+    if (!userUid) return;
+
+    // room di cui non si è (più) membri: errore di permessi, semplicemente non compaiono
+    const unsubs = rooms.map((r) =>
+      subscribeRoomEvents(
+        r.id,
+        (events) => setEventsByRoom((prev) => ({ ...prev, [r.id]: { name: r.name ?? "Room", events } })),
+        () => setEventsByRoom((prev) => ({ ...prev, [r.id]: { name: r.name ?? "Room", events: [] } }))
+      )
+    );
+    return () => unsubs.forEach((u) => u());
+  }, [userUid, rooms]);
+
+  // solo le room ancora nell'elenco
+  const events = useMemo(
+    () => sortEvents(rooms.flatMap((r) => eventsByRoom[r.id]?.events ?? [])),
+    [rooms, eventsByRoom]
+  );
 
   return (
     <main style={shell}>
@@ -108,91 +52,46 @@ export default function CalendarPage() {
       </div>
 
       <div className="ui-card" style={{ marginTop: 14 }}>
-        <div style={{ fontSize: 24, fontWeight: 900 }}>📅 Calendario Scout</div>
+        <div style={{ fontSize: 24, fontWeight: 900 }}>📅 Il mio calendario</div>
         <div style={{ marginTop: 6, color: "var(--muted)" }}>
-          Crea e gestisci eventi scout (uscite, campi, riunioni).
+          Uscite, campi e riunioni di tutte le tue room. Gli eventi si creano dal calendario della room.
         </div>
       </div>
 
       <div className="ui-card" style={{ marginTop: 16 }}>
-        <div style={{ fontWeight: 900, fontSize: 18 }}>➕ Crea nuovo evento</div>
-
-        <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
-          <input
-            className="ui-input"
-            placeholder="Titolo evento (es: Uscita al lago)"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-          />
-
-          <input
-            className="ui-input"
-            placeholder="Luogo (es: Monte Livata)"
-            value={place}
-            onChange={(e) => setPlace(e.target.value)}
-          />
-
-          <input
-            className="ui-input"
-            type="datetime-local"
-            value={date}
-            onChange={(e) => setDate(e.target.value)}
-          />
-
-          <textarea
-            className="ui-input"
-            placeholder="Descrizione / Note"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            style={{ minHeight: 100 }}
-          />
-
-          <button className="ui-btn-primary" onClick={createEvent} disabled={!user}>
-            Crea evento
-          </button>
-
-          {!user && (
-            <div style={{ color: "var(--muted)", fontSize: 13 }}>
-              ⚠️ Devi fare login per creare o eliminare eventi.
-            </div>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+          <div style={{ fontWeight: 900, fontSize: 18 }}>📌 Eventi programmati</div>
+          {user && (
+            <button
+              className="ui-btn"
+              disabled={events.length === 0}
+              onClick={() => downloadIcs("scouthub.ics", eventsToIcs(events, "ScoutHub"))}
+            >
+              ⬇️ Esporta .ics
+            </button>
           )}
         </div>
-      </div>
 
-      <div className="ui-card" style={{ marginTop: 16 }}>
-        <div style={{ fontWeight: 900, fontSize: 18 }}>📌 Eventi programmati</div>
-
-        <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
-          {events.length === 0 ? (
-            <div style={{ color: "var(--muted)" }}>Nessun evento creato.</div>
+        <div style={{ marginTop: 12 }}>
+          {!user ? (
+            <div style={{ color: "var(--muted)" }}>⚠️ Fai il login per vedere gli eventi delle tue room.</div>
           ) : (
-            events.map((ev) => (
-              <div
-                key={ev.id}
-                style={{
-                  border: "2px solid var(--border)",
-                  borderRadius: 12,
-                  padding: 12,
-                }}
-              >
-                <div style={{ fontWeight: 900, fontSize: 16 }}>{ev.title}</div>
-
-                <div style={{ marginTop: 6, color: "var(--muted)" }}>
-                  📍 {ev.place || "Nessun luogo"} <br />
-                  🕒 {ev.date}
-                </div>
-
-                {ev.description && (
-                  <div style={{ marginTop: 10, fontSize: 14 }}>{ev.description}</div>
-                )}
-
-                {user && (
-                  <button className="ui-btn" style={{ marginTop: 10 }} onClick={() => removeEvent(ev.id)}>
-                    🗑 Elimina
-                  </button>
-                )}
-              </div>
-            ))
+            <CalendarViews
+              events={events}
+              renderCard={(ev) => (
+                <EventCard
+                  ev={ev}
+                  roomName={eventsByRoom[ev.roomId]?.name}
+                  footer={
+                    <EventRsvp
+                      ev={ev}
+                      user={{ uid: user.uid, name: user.displayName ?? "utente" }}
+                      canManage={false}
+                    />
+                  }
+                />
+              )}
+            />
           )}
         </div>
       </div>
@@ -212,5 +111,3 @@ const topBar: React.CSSProperties = {
   gap: 10,
   alignItems: "center",
 };
-
-// deploy-trigger
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { ApiError, apiError } from "../../../../lib/apiServer";
+import { sendDueReminders } from "../../../../lib/notifyServer";
+
+// GET → { sent }: promemoria degli eventi, da chiamare ogni 5 minuti circa (Vercel Cron o altro scheduler)
+// con "Authorization: Bearer <CRON_SECRET>"
+export async function GET(req: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+      throw new ApiError(401, "Non autorizzato.");
+    }
+    return NextResponse.json({ sent: await sendDueReminders() });
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { apiError, ApiError, clientIp, rateLimit, readJson, requireUser } from "../../../lib/apiServer";
+import { CODE_LENGTH, joinWithCode, normalizeCode } from "../../../lib/roomsServer";
+
+// POST { code } → { roomId, name, joinCode }; limiti per utente e per IP contro chi prova i codici a caso
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    await rateLimit(`join:${user.uid}`, 10, 10 * 60 * 1000);
+    await rateLimit(`join-ip:${clientIp(req)}`, 30, 10 * 60 * 1000);
+
+    const code = normalizeCode((await readJson(req)).code);
+    if (code.length !== CODE_LENGTH) throw new ApiError(400, "Codice non valido.");
+
+    return NextResponse.json(await joinWithCode(user, code));
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { apiError, readJson, requireUser } from "../../../../../lib/apiServer";
+import { parseInviteOptions, regenerateMainCode } from "../../../../../lib/roomsServer";
+
+// POST { expiresAt?, maxUses? } → { code }: nuovo codice principale, il vecchio smette di valere
+export async function POST(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    const opts = parseInviteOptions(await readJson(req), "Codice principale");
+    return NextResponse.json(await regenerateMainCode(user, roomId, { ...opts, label: "Codice principale" }));
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { apiError, requireUser } from "../../../../../../lib/apiServer";
+import { deleteEvent } from "../../../../../../lib/eventsServer";
+
+// DELETE → elimina l'evento con risposte, storico e presenze (admin o chi l'ha creato)
+export async function DELETE(req: Request, { params }: { params: Promise<{ roomId: string; eventId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId, eventId } = await params;
+    await deleteEvent(user, roomId, eventId);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return apiError(err);
+  }
+}
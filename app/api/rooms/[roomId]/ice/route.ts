@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { apiError, rateLimit, requireUser } from "../../../../../lib/apiServer";
+import { roomIceConfig } from "../../../../../lib/iceServer";
+
+// GET → { iceServers, turn, expiresAt }: STUN/TURN per il vocale, con credenziali TURN temporanee
+export async function GET(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    await rateLimit(`ice:${user.uid}`, 30, 60 * 1000);
+
+    const config = await roomIceConfig(user, roomId);
+    return NextResponse.json(config, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    return apiError(err);
+  }
+}
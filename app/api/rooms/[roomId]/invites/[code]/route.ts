@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { apiError, requireUser } from "../../../../../../lib/apiServer";
+import { normalizeCode, revokeInvite } from "../../../../../../lib/roomsServer";
+
+// DELETE → revoca l'invito (il doc resta: /join spiega che il codice non vale più)
+export async function DELETE(req: Request, { params }: { params: Promise<{ roomId: string; code: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId, code } = await params;
+    await revokeInvite(user, roomId, normalizeCode(code));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { apiError, readJson, requireUser } from "../../../../../lib/apiServer";
+import { createInvite, parseInviteOptions } from "../../../../../lib/roomsServer";
+
+// POST { label, expiresAt?, maxUses? } → { code }: nuovo invito con nome (solo admin)
+export async function POST(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    const opts = parseInviteOptions(await readJson(req), "Invito");
+    return NextResponse.json(await createInvite(user, roomId, opts), { status: 201 });
+  } catch (err) {
+    return apiError(err);
+  }
+}
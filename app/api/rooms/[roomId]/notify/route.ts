@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { ApiError, apiError, rateLimit, readJson, requireUser } from "../../../../../lib/apiServer";
+import { notifyMessage, notifyVoice } from "../../../../../lib/notifyServer";
+
+// POST { type: "message", messageId } | { type: "voice", callId } → { sent }
+// push agli altri membri per un messaggio appena scritto o un vocale appena aperto (una volta sola)
+export async function POST(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    await rateLimit(`notify:${user.uid}`, 60, 60 * 1000);
+
+    const body = await readJson(req);
+    if (body.type === "message" && typeof body.messageId === "string") {
+      return NextResponse.json({ sent: await notifyMessage(user, roomId, body.messageId) });
+    }
+    if (body.type === "voice" && typeof body.callId === "string") {
+      return NextResponse.json({ sent: await notifyVoice(user, roomId, body.callId) });
+    }
+    throw new ApiError(400, "Richiesta non valida.");
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { apiError, requireUser } from "../../../../lib/apiServer";
+import { deleteRoom } from "../../../../lib/roomsServer";
+
+// DELETE → elimina la room per sempre (solo owner): messaggi, eventi, vocale, membri e allegati
+export async function DELETE(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    await deleteRoom(user, roomId);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { ApiError, apiError, rateLimit, readJson, requireUser } from "../../../../../lib/apiServer";
+import { endEmptyCall } from "../../../../../lib/voiceServer";
+
+// POST { callId } → { ended }: chiude la chiamata corrente se dentro non è rimasto nessuno
+export async function POST(req: Request, { params }: { params: Promise<{ roomId: string }> }) {
+  try {
+    const user = await requireUser(req);
+    const { roomId } = await params;
+    await rateLimit(`voice-end:${user.uid}`, 30, 60 * 1000);
+
+    const body = await readJson(req);
+    if (typeof body.callId !== "string" || !body.callId) throw new ApiError(400, "Richiesta non valida.");
+    return NextResponse.json({ ended: await endEmptyCall(user, roomId, body.callId) });
+  } catch (err) {
+    return apiError(err);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { apiError, rateLimit, readJson, requireUser } from "../../../lib/apiServer";
+import { createRoom } from "../../../lib/roomsServer";
+
+// POST { name } → { roomId, name, joinCode }
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req);
+    await rateLimit(`create:${user.uid}`, 10, 60 * 60 * 1000);
+    const body = await readJson(req);
+    const room = await createRoom(user, typeof body.name === "string" ? body.name : "");
+    return NextResponse.json(room, { status: 201 });
+  } catch (err) {
+    return apiError(err);
+  }
+}
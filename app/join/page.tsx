@@ -1,63 +1,40 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { collection, getDocs, query, where } from "firebase/firestore";
-import { db } from "../../lib/firebase";
-
-type SavedRoom = { id: string; name?: string; joinCode?: string };
-
-function loadSavedRooms(): SavedRoom[] {
-  try {
-    const raw = localStorage.getItem("scouthub.rooms.v1");
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((x) => x && typeof x.id === "string");
-  } catch {
-    return [];
-  }
-}
-
-function saveRooms(list: SavedRoom[]) {
-  try {
-    localStorage.setItem("scouthub.rooms.v1", JSON.stringify(list));
-  } catch {}
-}
-
-function upsertRoom(room: SavedRoom) {
-  const cur = loadSavedRooms();
-  const byId = new Map<string, SavedRoom>();
-  cur.forEach((r) => byId.set(r.id, r));
-  const prev = byId.get(room.id) || { id: room.id };
-  byId.set(room.id, { ...prev, ...room });
-  saveRooms(Array.from(byId.values()));
-}
+import { useEffect, useRef, useState } from "react";
+import { joinWithCode } from "../../lib/roomsApi";
+import { useAuth } from "../providers";
 
 export default function JoinPage() {
+  const { user, ready } = useAuth();
   const [status, setStatus] = useState("Cerco la room...");
+  const startedRef = useRef(false);
 
+  // una volta sola, col primo stato auth noto (al caricamento user è ancora null)
   useEffect(() => {
+    if (!ready || startedRef.current) return;
+    startedRef.current = true;
+
     const run = async () => {
       const url = new URL(window.location.href);
       const code = (url.searchParams.get("code") || "").toUpperCase().trim();
       if (!code) return setStatus("Codice mancante.");
 
-      const q = query(collection(db, "rooms"), where("joinCode", "==", code));
-      const snap = await getDocs(q);
-
-      if (snap.empty) return setStatus("Nessuna room trovata con questo codice.");
-
-      const roomId = snap.docs[0].id;
-      const data = snap.docs[0].data() as any;
+      if (!user) return setStatus("Fai il login dalla home, poi riapri il link di invito.");
 
-      // salva localmente così poi non reinserisci il codice
-      upsertRoom({ id: roomId, name: data?.name, joinCode: data?.joinCode });
+      // il server risolve il codice, controlla i ban e ci aggiunge ai membri (app/api/join)
+      let room;
+      try {
+        room = await joinWithCode(code);
+      } catch (e) {
+        return setStatus(e instanceof Error ? e.message : "Errore durante la ricerca della room.");
+      }
 
-      window.location.href = `/room/${roomId}?code=${encodeURIComponent(code)}`;
+      // la room compare già nell'elenco (users/{uid}/rooms): la aggiunge il server
+      window.location.href = `/room/${room.roomId}?code=${encodeURIComponent(code)}`;
     };
 
     run().catch(() => setStatus("Errore durante la ricerca della room."));
-  }, []);
+  }, [ready, user]);
 
   return (
     <main style={{ padding: 24, maxWidth: 820, margin: "0 auto" }}>
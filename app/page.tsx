@@ -1,69 +1,25 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import {
-  GoogleAuthProvider,
-  onAuthStateChanged,
-  signInWithPopup,
-  signOut,
-} from "firebase/auth";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-import { auth, db } from "../lib/firebase";
-import { useTheme } from "./providers";
-
-type SavedRoom = { id: string; name?: string; joinCode?: string };
-
-function randomCode(len = 6) {
-  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-  let out = "";
-  for (let i = 0; i < len; i++) out += chars[Math.floor(Math.random() * chars.length)];
-  return out;
-}
-
-function loadSavedRooms(): SavedRoom[] {
-  try {
-    const raw = localStorage.getItem("scouthub.rooms.v1");
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((x) => x && typeof x.id === "string");
-  } catch {
-    return [];
-  }
-}
-
-function saveRooms(list: SavedRoom[]) {
-  try {
-    localStorage.setItem("scouthub.rooms.v1", JSON.stringify(list));
-  } catch {}
-}
-
-function upsertRoom(room: SavedRoom) {
-  const cur = loadSavedRooms();
-  const byId = new Map<string, SavedRoom>();
-  cur.forEach((r) => byId.set(r.id, r));
-  const prev = byId.get(room.id) || { id: room.id };
-  byId.set(room.id, { ...prev, ...room });
-  saveRooms(Array.from(byId.values()));
-}
+import { useState } from "react";
+import { GoogleAuthProvider, signInWithPopup, signOut } from "firebase/auth";
+import { auth } from "../lib/firebase";
+import { useUserRooms } from "../lib/hooks";
+import { leaveRoom as leaveRoomApi } from "../lib/rooms";
+import { createRoom as createRoomApi } from "../lib/roomsApi";
+import { useAuth, useTheme } from "./providers";
 
 export default function Home() {
   const { theme, toggleTheme } = useTheme();
 
-  const [user, setUser] = useState<any>(null);
+  const { user } = useAuth();
   const [roomName, setRoomName] = useState("La mia Room");
   const [joinCode, setJoinCode] = useState("");
-  const [savedRooms, setSavedRooms] = useState<SavedRoom[]>([]);
   const [msg, setMsg] = useState<string | null>(null);
 
-  useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u) => setUser(u));
-    return () => unsub();
-  }, []);
+  const userUid = user?.uid ?? null;
 
-  useEffect(() => {
-    setSavedRooms(loadSavedRooms());
-  }, []);
+  // elenco sincronizzato su Firestore (users/{uid}/rooms)
+  const savedRooms = useUserRooms(userUid);
 
   const login = async () => {
     setMsg(null);
@@ -79,20 +35,15 @@ export default function Home() {
     setMsg(null);
     if (!auth.currentUser) return;
 
-    const code = randomCode(6);
-    const name = roomName.trim() || "Room";
-
-    const ref = await addDoc(collection(db, "rooms"), {
-      name,
-      joinCode: code,
-      adminUid: auth.currentUser.uid,
-      createdAt: serverTimestamp(),
-    });
-
-    upsertRoom({ id: ref.id, name, joinCode: code });
-    setSavedRooms(loadSavedRooms());
+    // codice univoco e member doc dell'owner li crea il server (app/api/rooms)
+    let room;
+    try {
+      room = await createRoomApi(roomName.trim() || "Room");
+    } catch (e) {
+      return setMsg(e instanceof Error ? e.message : "Errore creando la room.");
+    }
 
-    window.location.href = `/room/${ref.id}?code=${encodeURIComponent(code)}`;
+    window.location.href = `/room/${room.roomId}?code=${encodeURIComponent(room.joinCode)}`;
   };
 
   const enterRoom = async () => {
@@ -103,15 +54,18 @@ export default function Home() {
   };
 
   const openRoom = (id: string) => {
-    upsertRoom({ id });
-    setSavedRooms(loadSavedRooms());
     window.location.href = `/room/${id}`;
   };
 
-  const forgetRoom = (id: string) => {
-    const cur = loadSavedRooms().filter((r) => r.id !== id);
-    saveRooms(cur);
-    setSavedRooms(cur);
+  // esce dalla room: via il member doc e la voce dall'elenco (per rientrare serve un codice)
+  const leaveRoom = async (id: string, name?: string) => {
+    if (!userUid) return;
+    if (!confirm(`Vuoi uscire da "${name ?? "Room"}"? Per rientrare ti servirà di nuovo un codice di invito.`)) return;
+    try {
+      await leaveRoomApi(id, userUid);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Errore uscendo dalla room.");
+    }
   };
 
   return (
@@ -124,9 +78,14 @@ export default function Home() {
           </p>
         </div>
 
-        <button className="ui-btn" onClick={toggleTheme}>
-          {theme === "dark" ? "☀️ Tema chiaro" : "🌙 Tema scuro"}
-        </button>
+        <div style={{ display: "flex", gap: 10, alignItems: "flex-start" }}>
+          <button className="ui-btn" onClick={() => (window.location.href = "/Calendar")}>
+            📅 Calendario
+          </button>
+          <button className="ui-btn" onClick={toggleTheme}>
+            {theme === "dark" ? "☀️ Tema chiaro" : "🌙 Tema scuro"}
+          </button>
+        </div>
       </div>
 
       <div className="ui-card" style={{ marginTop: 16 }}>
@@ -173,7 +132,7 @@ export default function Home() {
                   </div>
                 </button>
 
-                <button className="ui-btn" onClick={() => forgetRoom(r.id)} title="Rimuovi">
+                <button className="ui-btn" onClick={() => leaveRoom(r.id, r.name)} title="Esci dalla room">
                   ✕
                 </button>
               </div>
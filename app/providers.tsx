@@ -1,6 +1,9 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import { auth } from "../lib/firebase";
+import { registerServiceWorker } from "../lib/offline";
 
 type Theme = "light" | "dark";
 
@@ -12,6 +15,14 @@ type ThemeCtx = {
 
 const ThemeContext = createContext<ThemeCtx | null>(null);
 
+// ready: il primo stato auth è arrivato (prima user è null anche se si è loggati)
+type AuthCtx = {
+  user: User | null;
+  ready: boolean;
+};
+
+const AuthContext = createContext<AuthCtx | null>(null);
+
 function applyThemeToHtml(theme: Theme) {
   if (typeof document === "undefined") return;
   const el = document.documentElement; // <html>
@@ -24,6 +35,14 @@ function applyThemeToHtml(theme: Theme) {
 
 export default function Providers({ children }: { children: React.ReactNode }) {
   const [theme, setThemeState] = useState<Theme>("light");
+  const [authState, setAuthState] = useState<AuthCtx>({ user: null, ready: false });
+
+  useEffect(() => onAuthStateChanged(auth, (user) => setAuthState({ user, ready: true })), []);
+
+  // service worker: app apribile offline (e notifiche push)
+  useEffect(() => {
+    if ("serviceWorker" in navigator) registerServiceWorker().catch(() => {});
+  }, []);
 
   // 1) inizializza dal localStorage o da preferenza sistema
   useEffect(() => {
@@ -61,7 +80,11 @@ export default function Providers({ children }: { children: React.ReactNode }) {
     return { theme, setTheme, toggleTheme };
   }, [theme]);
 
-  return <ThemeContext.Provider value={api}>{children}</ThemeContext.Provider>;
+  return (
+    <AuthContext.Provider value={authState}>
+      <ThemeContext.Provider value={api}>{children}</ThemeContext.Provider>
+    </AuthContext.Provider>
+  );
 }
 
 export function useTheme() {
@@ -71,3 +94,11 @@ export function useTheme() {
   }
   return ctx;
 }
+
+export function useAuth() {
+  const ctx = useContext(AuthContext);
+  if (!ctx) {
+    throw new Error("useAuth deve essere usato dentro <Providers>");
+  }
+  return ctx;
+}
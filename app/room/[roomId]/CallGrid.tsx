@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { VoiceMember } from "../../../lib/voice";
+import type { PeerState, RemoteMedia } from "../../../lib/voiceMesh";
+
+export type LocalVideo = { camera: MediaStream | null; screen: MediaStream | null };
+
+// Griglia della chiamata: schermi condivisi in grande, poi un riquadro per partecipante
+// (camera se accesa, altrimenti l'iniziale). I video arrivano dal mesh, l'audio resta in RemoteAudio.
+export default function CallGrid({
+  members,
+  myUid,
+  local,
+  remote,
+  peerStates,
+  speaking,
+}: {
+  members: VoiceMember[];
+  myUid: string;
+  local: LocalVideo;
+  remote: Record<string, RemoteMedia>;
+  peerStates: Record<string, PeerState>;
+  speaking: Set<string>;
+}) {
+  const videoOf = (m: VoiceMember, slot: "camera" | "screen") => {
+    if (m.uid === myUid) return local[slot];
+    return m[slot] ? (remote[m.uid]?.[slot] ?? null) : null;
+  };
+
+  const screens = members
+    .map((m) => ({ m, stream: videoOf(m, "screen") }))
+    .filter((s): s is { m: VoiceMember; stream: MediaStream } => s.stream !== null);
+
+  return (
+    <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
+      {screens.map(({ m, stream }) => (
+        <div key={`screen-${m.uid}`} style={tile}>
+          <Video stream={stream} muted fit="contain" style={{ maxHeight: "60vh" }} />
+          <div style={label}>🖥 {m.uid === myUid ? "Il tuo schermo" : `Schermo di ${m.name}`}</div>
+        </div>
+      ))}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))", gap: 10 }}>
+        {members.map((m) => {
+          const camera = videoOf(m, "camera");
+          const me = m.uid === myUid;
+          const connecting = !me && peerStates[m.uid] !== "connected";
+          const talking = speaking.has(m.uid) && !m.forceMuted;
+          return (
+            <div key={m.uid} style={{ ...tile, aspectRatio: "16 / 9", ...(talking ? speakingTile : null) }}>
+              {camera ? (
+                <Video stream={camera} muted mirror={me} fit="cover" style={{ height: "100%" }} />
+              ) : (
+                <div style={avatar}>{(m.name.trim()[0] ?? "?").toUpperCase()}</div>
+              )}
+              <div style={label}>
+                {m.name}
+                {me && " (tu)"}
+                {(m.muted || m.forceMuted) && " 🔇"}
+                {connecting && " …"}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// sempre muted: l'audio dei partecipanti passa da <audio>, qui solo immagine
+function Video({
+  stream,
+  muted,
+  mirror = false,
+  fit,
+  style,
+}: {
+  stream: MediaStream;
+  muted: boolean;
+  mirror?: boolean;
+  fit: "cover" | "contain";
+  style?: React.CSSProperties;
+}) {
+  const ref = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <video
+      ref={ref}
+      autoPlay
+      playsInline
+      muted={muted}
+      style={{ width: "100%", display: "block", objectFit: fit, transform: mirror ? "scaleX(-1)" : undefined, ...style }}
+    />
+  );
+}
+
+const tile: React.CSSProperties = {
+  position: "relative",
+  border: "2px solid var(--border)",
+  borderRadius: 12,
+  overflow: "hidden",
+  background: "#000",
+};
+
+const speakingTile: React.CSSProperties = {
+  borderColor: "#22c55e",
+  boxShadow: "0 0 0 2px rgba(34, 197, 94, 0.35)",
+};
+
+const label: React.CSSProperties = {
+  position: "absolute",
+  left: 8,
+  bottom: 8,
+  padding: "2px 8px",
+  borderRadius: 999,
+  background: "rgba(0, 0, 0, 0.6)",
+  color: "#fff",
+  fontSize: 12,
+  fontWeight: 700,
+};
+
+const avatar: React.CSSProperties = {
+  height: "100%",
+  display: "grid",
+  placeItems: "center",
+  fontSize: 40,
+  fontWeight: 900,
+  color: "var(--primary-text)",
+  background: "var(--primary-bg)",
+};
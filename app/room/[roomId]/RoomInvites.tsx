@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { formatDayShort, fromInput } from "../../../lib/calendar";
+import { useInvites } from "../../../lib/hooks";
+import {
+  createInvite,
+  inviteLink,
+  inviteProblem,
+  regenerateJoinCode,
+  revokeInvite,
+  type Invite,
+} from "../../../lib/roomsApi";
+
+// Inviti della room (solo admin): codice principale, inviti con nome, scadenze e limiti
+export default function RoomInvites({
+  roomId,
+  mainCode,
+  joinDisabled,
+  onToggleJoin,
+}: {
+  roomId: string;
+  mainCode: string | undefined;
+  joinDisabled: boolean;
+  onToggleJoin: () => void;
+}) {
+  const invites = useInvites(roomId);
+  const [label, setLabel] = useState("");
+  const [expiresStr, setExpiresStr] = useState("");
+  const [maxUsesStr, setMaxUsesStr] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+
+  const run = async (fn: () => Promise<unknown>, ok: string) => {
+    setBusy(true);
+    setNote(null);
+    try {
+      await fn();
+      setNote(ok);
+    } catch (e) {
+      setNote(e instanceof Error ? e.message : "Errore.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(code));
+      setNote("Link copiato ✅");
+    } catch {
+      setNote(inviteLink(code));
+    }
+  };
+
+  // la scadenza vale fino a fine giornata
+  const options = () => {
+    const day = fromInput(expiresStr);
+    return {
+      label: label.trim() || undefined,
+      expiresAt: day ? new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59) : null,
+      maxUses: maxUsesStr ? Number(maxUsesStr) : null,
+    };
+  };
+
+  const regenerate = () => {
+    if (!confirm("Rigenerare il codice principale? Il codice attuale smetterà di funzionare.")) return;
+    run(() => regenerateJoinCode(roomId, { expiresAt: null, maxUses: null }), "Nuovo codice creato ✅");
+  };
+
+  const create = () => {
+    if (!label.trim()) return setNote("Dai un nome all'invito (es. genitori).");
+    run(async () => {
+      await createInvite(roomId, options());
+      setLabel("");
+      setExpiresStr("");
+      setMaxUsesStr("");
+    }, "Invito creato ✅");
+  };
+
+  const revoke = (inv: Invite) => {
+    if (!confirm(`Revocare l'invito "${inv.label}"? Chi ha già il link non potrà più entrare.`)) return;
+    run(() => revokeInvite(roomId, inv.code), "Invito revocato");
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div>
+          <div style={{ fontWeight: 900 }}>Ingressi con codice</div>
+          <div style={{ fontSize: 12, color: "var(--muted)" }}>
+            {joinDisabled ? "Chiusi: nessun nuovo membro può entrare" : "Aperti"}
+          </div>
+        </div>
+        <button className="ui-btn" onClick={onToggleJoin}>
+          {joinDisabled ? "Riapri" : "Chiudi"}
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <span style={{ fontWeight: 900 }}>Codice principale: {mainCode ?? "—"}</span>
+        {mainCode && (
+          <button className="ui-btn" onClick={() => copyLink(mainCode)}>
+            📋 Copia link
+          </button>
+        )}
+        <button className="ui-btn" onClick={regenerate} disabled={busy}>
+          🔄 Rigenera
+        </button>
+      </div>
+
+      {invites.filter((i) => !i.main || i.code === mainCode).map((inv) => {
+        const problem = inviteProblem(inv, mainCode);
+        return (
+          <div key={inv.code} style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+            <div style={{ opacity: problem ? 0.6 : 1 }}>
+              <div style={{ fontWeight: 900 }}>
+                {inv.label} <span style={{ fontWeight: 400, color: "var(--muted)" }}>• {inv.code}</span>
+                {problem && <span className="ui-pill" style={{ marginLeft: 6 }}>{problem}</span>}
+              </div>
+              <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                {inv.uses}
+                {inv.maxUses !== null ? `/${inv.maxUses}` : ""} ingressi
+                {inv.expiresAt && ` • scade ${formatDayShort(inv.expiresAt)}`}
+              </div>
+            </div>
+            {!problem && !inv.main && (
+              <div style={{ display: "flex", gap: 6 }}>
+                <button className="ui-btn" onClick={() => copyLink(inv.code)}>
+                  📋
+                </button>
+                <button className="ui-btn" onClick={() => revoke(inv)} disabled={busy}>
+                  Revoca
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1fr auto", gap: 8, alignItems: "end" }}>
+        <input className="ui-input" placeholder="Nuovo invito (es. genitori)" value={label} onChange={(e) => setLabel(e.target.value)} />
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Scade il
+          <input className="ui-input" type="date" value={expiresStr} onChange={(e) => setExpiresStr(e.target.value)} />
+        </label>
+        <label style={{ fontSize: 12, color: "var(--muted)" }}>
+          Max ingressi
+          <input
+            className="ui-input"
+            type="number"
+            min={1}
+            value={maxUsesStr}
+            onChange={(e) => setMaxUsesStr(e.target.value)}
+          />
+        </label>
+        <button className="ui-btn-primary" onClick={create} disabled={busy}>
+          Crea
+        </button>
+      </div>
+
+      {note && <div style={{ fontSize: 13, color: "var(--muted)" }}>{note}</div>}
+    </div>
+  );
+}
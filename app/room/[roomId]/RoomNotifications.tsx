@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DEFAULT_PREFS, isMuted, REMINDER_OPTIONS, type NotifyPrefs } from "../../../lib/notifyRules";
+import {
+  devicePushToken,
+  disablePush,
+  enablePush,
+  pushSupported,
+  refreshPushToken,
+  saveNotifyPrefs,
+  subscribeNotifyPrefs,
+} from "../../../lib/push";
+
+const MUTE_OPTIONS = [
+  { label: "1 ora", ms: 60 * 60 * 1000 },
+  { label: "8 ore", ms: 8 * 60 * 60 * 1000 },
+  { label: "1 settimana", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+function reminderLabel(minutes: number) {
+  if (minutes >= 24 * 60) return `${minutes / (24 * 60)} giorno prima`;
+  if (minutes >= 60) return `${minutes / 60} ${minutes === 60 ? "ora" : "ore"} prima`;
+  return `${minutes} minuti prima`;
+}
+
+// Notifiche push: attivazione sul dispositivo e preferenze di questa room (ogni membro le sue)
+export default function RoomNotifications({ roomId, uid }: { roomId: string; uid: string }) {
+  const [open, setOpen] = useState(false);
+  const [device, setDevice] = useState<{ supported: boolean; on: boolean } | null>(null);
+  const [prefs, setPrefs] = useState<NotifyPrefs>(DEFAULT_PREFS);
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    pushSupported().then((ok) => {
+      if (!cancelled) setDevice({ supported: ok, on: ok && devicePushToken() !== null });
+    });
+    refreshPushToken(uid).catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  useEffect(() => {
+    return subscribeNotifyPrefs(uid, roomId, setPrefs);
+  }, [uid, roomId]);
+
+  const toggleDevice = async () => {
+    if (!device?.supported) return;
+    setBusy(true);
+    setNote(null);
+    try {
+      if (device.on) await disablePush(uid);
+      else await enablePush(uid);
+      setDevice({ supported: true, on: !device.on });
+    } catch (e) {
+      setNote(e instanceof Error ? e.message : "Errore attivando le notifiche.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async (patch: Partial<NotifyPrefs>) => {
+    try {
+      await saveNotifyPrefs(uid, roomId, patch);
+    } catch {
+      setNote("Errore salvando le preferenze.");
+    }
+  };
+
+  const muted = isMuted(prefs, Date.now());
+
+  return (
+    <div className="ui-card" style={{ marginTop: 16 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div style={{ fontWeight: 900 }}>🔔 Notifiche{muted && " (silenziata)"}</div>
+        <button className="ui-btn" onClick={() => setOpen((v) => !v)}>
+          {open ? "Chiudi" : "Apri"}
+        </button>
+      </div>
+
+      {open && (
+        <div style={{ marginTop: 12, display: "grid", gap: 12 }}>
+          <div style={row}>
+            <div>
+              <div style={{ fontWeight: 900 }}>Su questo dispositivo</div>
+              <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                {device === null
+                  ? "Controllo…"
+                  : device.supported
+                    ? "Vale per tutte le room"
+                    : "Questo browser non supporta le notifiche (su iPhone: aggiungi l'app alla schermata Home)"}
+              </div>
+            </div>
+            <button className="ui-btn" disabled={busy || !device?.supported} onClick={toggleDevice}>
+              {device?.on ? "ON" : "OFF"}
+            </button>
+          </div>
+
+          <div style={row}>
+            <div style={{ fontWeight: 900 }}>Nuovi messaggi</div>
+            <button className="ui-btn" onClick={() => save({ messages: !prefs.messages })}>
+              {prefs.messages ? "ON" : "OFF"}
+            </button>
+          </div>
+
+          <div style={row}>
+            <div style={{ fontWeight: 900 }}>Vocale aperto</div>
+            <button className="ui-btn" onClick={() => save({ voice: !prefs.voice })}>
+              {prefs.voice ? "ON" : "OFF"}
+            </button>
+          </div>
+
+          <div style={row}>
+            <div style={{ fontWeight: 900 }}>Promemoria eventi</div>
+            <select
+              className="ui-input"
+              style={{ width: "auto" }}
+              value={prefs.events ? String(prefs.reminderMinutes) : "off"}
+              onChange={(e) =>
+                save(e.target.value === "off" ? { events: false } : { events: true, reminderMinutes: Number(e.target.value) })
+              }
+            >
+              <option value="off">Nessuno</option>
+              {REMINDER_OPTIONS.map((m) => (
+                <option key={m} value={m}>
+                  {reminderLabel(m)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={row}>
+            <div>
+              <div style={{ fontWeight: 900 }}>Silenzia la room</div>
+              {muted && prefs.mutedUntil && (
+                <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                  fino a {prefs.mutedUntil.toLocaleString("it-IT", { dateStyle: "short", timeStyle: "short" })}
+                </div>
+              )}
+            </div>
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", justifyContent: "flex-end" }}>
+              {muted ? (
+                <button className="ui-btn" onClick={() => save({ mutedUntil: null })}>
+                  Riattiva
+                </button>
+              ) : (
+                MUTE_OPTIONS.map((o) => (
+                  <button key={o.label} className="ui-btn" onClick={() => save({ mutedUntil: new Date(Date.now() + o.ms) })}>
+                    {o.label}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {note && <div style={{ color: "var(--muted)", fontSize: 13 }}>{note}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const row: React.CSSProperties = {
+  border: "2px solid var(--border)",
+  borderRadius: 12,
+  padding: 12,
+  display: "flex",
+  justifyContent: "space-between",
+  gap: 12,
+  alignItems: "center",
+};
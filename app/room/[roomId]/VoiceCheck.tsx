@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { listAudioDevices, micConstraints } from "../../../lib/audioDevices";
+import { getRoomIce, probeIce, probeVerdict, type IceProbe, type RoomIce } from "../../../lib/ice";
+import { createLevelMeter } from "../../../lib/speaking";
+
+type IceCheck = { ice: RoomIce; probe: IceProbe } | "running" | null;
+
+// Prova prima di entrare in vocale: livello del microfono scelto e raggiungibilità di STUN/TURN
+export default function VoiceCheck({
+  roomId,
+  micId,
+  onMicChange,
+}: {
+  roomId: string;
+  micId: string | null;
+  onMicChange: (micId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [level, setLevel] = useState(0);
+  const [iceCheck, setIceCheck] = useState<IceCheck>(null);
+  const [note, setNote] = useState<string | null>(null);
+  // richieste del microfono: vale solo l'ultima (e nessuna dopo la chiusura)
+  const attemptRef = useRef(0);
+
+  useEffect(() => {
+    const attempts = attemptRef;
+    return () => {
+      attempts.current++;
+    };
+  }, []);
+
+  // il microfono resta acceso solo finché la prova è aperta
+  useEffect(() => {
+    if (!stream) return;
+    const track = stream.getAudioTracks()[0];
+    const stop = track ? createLevelMeter(track, setLevel) : () => {};
+    return () => {
+      stop();
+      stream.getTracks().forEach((t) => t.stop());
+    };
+  }, [stream]);
+
+  const startMic = async (id: string | null, exact = false) => {
+    const attempt = ++attemptRef.current;
+    setNote(null);
+    try {
+      const next = await navigator.mediaDevices.getUserMedia(micConstraints(id, exact));
+      if (attempt !== attemptRef.current) {
+        next.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      setStream(next);
+      setInputs((await listAudioDevices()).inputs);
+    } catch {
+      if (attempt !== attemptRef.current) return;
+      setStream(null);
+      setNote("Microfono non disponibile: controlla i permessi del browser.");
+    }
+  };
+
+  const testConnection = async () => {
+    setIceCheck("running");
+    try {
+      const ice = await getRoomIce(roomId);
+      setIceCheck({ ice, probe: await probeIce(ice) });
+    } catch {
+      setIceCheck(null);
+      setNote("Test della connessione non riuscito: riprova.");
+    }
+  };
+
+  const start = () => {
+    setOpen(true);
+    startMic(micId);
+    testConnection();
+  };
+
+  const close = () => {
+    attemptRef.current++;
+    setOpen(false);
+    setStream(null);
+    setLevel(0);
+    setIceCheck(null);
+  };
+
+  const changeMic = (id: string) => {
+    onMicChange(id);
+    startMic(id, true);
+  };
+
+  if (!open) {
+    return (
+      <button className="ui-btn" onClick={start}>
+        🎧 Prova microfono e connessione
+      </button>
+    );
+  }
+
+  const currentMic = stream?.getAudioTracks()[0]?.getSettings().deviceId ?? micId ?? "";
+
+  return (
+    <div style={panel}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+        <div style={{ fontWeight: 900 }}>🎧 Prova microfono e connessione</div>
+        <button className="ui-btn" onClick={close}>
+          Chiudi
+        </button>
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <select
+          className="ui-input"
+          value={currentMic}
+          onChange={(e) => changeMic(e.target.value)}
+          disabled={inputs.length === 0}
+        >
+          {inputs.length === 0 && <option value="">Microfono predefinito</option>}
+          {inputs.map((d, i) => (
+            <option key={d.deviceId} value={d.deviceId}>
+              {d.label || `Microfono ${i + 1}`}
+            </option>
+          ))}
+        </select>
+        <div style={meter}>
+          <div style={{ ...meterFill, width: `${Math.min(100, Math.round(level * 400))}%` }} />
+        </div>
+        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+          {stream ? "Parla: la barra deve muoversi." : "Microfono spento."}
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+          <div style={{ fontWeight: 900 }}>Connessione</div>
+          <button className="ui-btn" onClick={testConnection} disabled={iceCheck === "running"}>
+            Riprova
+          </button>
+        </div>
+        {iceCheck === "running" && <div style={{ color: "var(--muted)" }}>Controllo la rete…</div>}
+        {iceCheck && iceCheck !== "running" && (
+          <>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <span className="ui-pill">Rete locale {iceCheck.probe.host ? "✅" : "❌"}</span>
+              <span className="ui-pill">STUN {iceCheck.probe.srflx ? "✅" : "❌"}</span>
+              <span className="ui-pill">
+                TURN {!iceCheck.ice.turn ? "non configurato" : iceCheck.probe.relay ? "✅" : "❌"}
+              </span>
+            </div>
+            <div>{probeVerdict(iceCheck.ice, iceCheck.probe)}</div>
+            {iceCheck.ice.fallback && (
+              <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                Server ICE della room non raggiungibili: provato solo lo STUN pubblico.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {note && <div style={{ color: "var(--muted)", fontSize: 13 }}>{note}</div>}
+    </div>
+  );
+}
+
+const panel: React.CSSProperties = {
+  marginTop: 12,
+  border: "2px solid var(--border)",
+  borderRadius: 12,
+  padding: 12,
+  display: "grid",
+  gap: 12,
+};
+
+const meter: React.CSSProperties = {
+  height: 10,
+  borderRadius: 999,
+  background: "var(--pill)",
+  border: "2px solid var(--border)",
+  overflow: "hidden",
+};
+
+const meterFill: React.CSSProperties = {
+  height: "100%",
+  background: "#22c55e",
+  transition: "width 0.1s linear",
+};
@@ -1,90 +1,142 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { usePathname } from "next/navigation";
-import { onAuthStateChanged } from "firebase/auth";
 import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDoc,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-} from "firebase/firestore";
-import { auth, db } from "../../../lib/firebase";
-import { useTheme } from "../../providers";
-
-type RoomData = {
-  name: string;
-  adminUid: string;
-  joinCode: string;
-
-  defaultCanChat?: boolean;
-  defaultCanCall?: boolean;
-  lockChat?: boolean;
-  lockCalls?: boolean;
-};
-
-type Msg = { id: string; text: string; uid: string; name: string };
-type SavedRoom = { id: string; name?: string; joinCode?: string };
-
-type Member = {
-  uid: string;
-  name: string;
-  role: "admin" | "member";
-  canChat?: boolean;
-  canCall?: boolean;
-  joinedAt?: any;
-};
-
-type CallDoc = {
-  createdAt?: any;
-  createdByUid?: string;
-  offer?: any;
-  answer?: any;
-  status?: "open" | "connected" | "ended";
-};
-
-type VoiceStateDoc = {
-  callId?: string | null;
-  updatedAt?: any;
-  updatedByUid?: string;
+  attachmentUrl,
+  formatBytes,
+  isImageAttachment,
+  removeAttachment,
+  uploadAttachment,
+  validateAttachment,
+  type Attachment,
+} from "../../../lib/attachments";
+import {
+  canPickOutput,
+  listAudioDevices,
+  micConstraints,
+  saveAudioChoice,
+  savedAudioChoice,
+  subscribeDeviceChange,
+  type AudioChoice,
+  type AudioDevices,
+} from "../../../lib/audioDevices";
+import {
+  useBans,
+  useJoinRequests,
+  useNow,
+  useOnline,
+  usePresence,
+  useRoom,
+  useSpeaking,
+  useUserRooms,
+  useVoiceMembers,
+} from "../../../lib/hooks";
+import { connectionSummary, getRoomIce, rtcConfigOf, type RoomIce } from "../../../lib/ice";
+import {
+  getMember,
+  markRead,
+  memberCanCall,
+  memberCanChat,
+  refreshMember,
+  removeMember,
+  roleAtLeast,
+  ROLE_RANK,
+  subscribeMembers,
+  transferOwnership as transferRoomOwnership,
+  updateMember,
+  type Member,
+  type Role,
+} from "../../../lib/members";
+import {
+  countMessagesSince,
+  deleteMessage,
+  editMessage,
+  loadOlderMessages,
+  mergeMsgs,
+  sendMessage,
+  subscribeLatestMessages,
+  type Msg,
+  type MsgCursor,
+} from "../../../lib/messages";
+import {
+  approveJoinRequest,
+  banMember as banRoomMember,
+  getMyJoinRequest,
+  getRoom,
+  isBanned,
+  leaveRoom,
+  missingRoomDefaults,
+  rejectJoinRequest,
+  setRoomArchived,
+  subscribeMyBan,
+  subscribeMyJoinRequest,
+  unbanMember as unbanRoomMember,
+  updateRoom,
+  type Ban,
+  type JoinRequest,
+  type RoomData,
+  type RoomSettings,
+} from "../../../lib/rooms";
+import { isOnline, markOffline, markOnline } from "../../../lib/presence";
+import { HEARTBEAT_MS, isFresh } from "../../../lib/presenceRules";
+import { deleteRoom } from "../../../lib/roomsApi";
+import { forgetUserRoom, saveUserRoom } from "../../../lib/userRooms";
+import {
+  endCallIfEmpty,
+  endVoiceForAll,
+  forceMuteVoice,
+  heartbeatVoice,
+  joinVoice,
+  leaveVoice,
+  openVoiceCall,
+  pruneVoiceMembers,
+  removeFromVoice,
+  setVoiceMedia,
+  setVoiceMuted,
+  subscribeCallStatus,
+  subscribeVoiceCall,
+  type VoiceMember,
+} from "../../../lib/voice";
+import {
+  createVoiceMesh,
+  newVoiceSession,
+  type PeerState,
+  type RemoteMedia,
+  type VoiceMesh,
+} from "../../../lib/voiceMesh";
+import RoomEvents from "../../Calendar/RoomEvents";
+import CallGrid, { type LocalVideo } from "./CallGrid";
+import RoomInvites from "./RoomInvites";
+import RoomNotifications from "./RoomNotifications";
+import VoiceCheck from "./VoiceCheck";
+import { useAuth, useTheme } from "../../providers";
+
+const ROLE_LABEL: Record<Role, string> = {
+  owner: "OWNER",
+  admin: "ADMIN",
+  moderator: "MODERATORE",
+  member: "MEMBER",
 };
 
-type VoiceMember = {
-  uid: string;
-  name: string;
-  joinedAt?: any;
-};
+function dayKey(d: Date) {
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+}
 
-function loadSavedRooms(): SavedRoom[] {
-  try {
-    const raw = localStorage.getItem("scouthub.rooms.v1");
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed.filter((x) => x && typeof x.id === "string");
-  } catch {
-    return [];
-  }
+function formatDay(d: Date) {
+  const today = new Date();
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  if (dayKey(d) === dayKey(today)) return "Oggi";
+  if (dayKey(d) === dayKey(yesterday)) return "Ieri";
+  return d.toLocaleDateString("it-IT", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
 }
-function saveRooms(list: SavedRoom[]) {
-  try {
-    localStorage.setItem("scouthub.rooms.v1", JSON.stringify(list));
-  } catch {}
+
+function formatTime(d: Date) {
+  return d.toLocaleTimeString("it-IT", { hour: "2-digit", minute: "2-digit" });
 }
-function upsertRoom(room: SavedRoom) {
-  const cur = loadSavedRooms();
-  const byId = new Map<string, SavedRoom>();
-  cur.forEach((r) => byId.set(r.id, r));
-  const prev = byId.get(room.id) || { id: room.id };
-  byId.set(room.id, { ...prev, ...room });
-  saveRooms(Array.from(byId.values()));
+
+function formatTs(d: Date | null) {
+  return d ? d.toLocaleString("it-IT", { dateStyle: "short", timeStyle: "short" }) : "—";
 }
 
 export default function RoomPage() {
@@ -96,22 +148,60 @@ export default function RoomPage() {
     return parts[1] || "";
   }, [pathname]);
 
-  const [user, setUser] = useState<any>(null);
+  const { user } = useAuth();
+  const userUid = user?.uid ?? null;
 
-  const [room, setRoom] = useState<RoomData | null>(null);
+  // la room letta all'apertura; poi (da membri o in attesa) quella live
+  const [loadedRoom, setLoadedRoom] = useState<RoomData | null>(null);
   const [status, setStatus] = useState("Carico room...");
 
   const [messages, setMessages] = useState<Msg[]>([]);
   const [text, setText] = useState("");
-
-  // sidebar rooms
-  const [savedRooms, setSavedRooms] = useState<SavedRoom[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  // allegati
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [uploadPct, setUploadPct] = useState<number | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // chat paginata
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const chatBoxRef = useRef<HTMLDivElement | null>(null);
+  const oldestDocRef = useRef<MsgCursor | null>(null);
+  const atBottomRef = useRef(true);
+  const prependRef = useRef<{ height: number; top: number } | null>(null);
+
+  // letture: "ultimo letto" sul member doc, fissato all'apertura per il divisore
+  const [unreadSince, setUnreadSince] = useState<Date | null>(null);
+  const unreadInitRef = useRef(false);
+  const lastMarkedRef = useRef<string | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const [tab, setTab] = useState<"chat" | "calendar">("chat");
+
+  // sidebar rooms (users/{uid}/rooms)
+  const savedRooms = useUserRooms(userUid);
   const [sidebarOpen, setSidebarOpen] = useState(true);
 
   // members + my perms
   const [members, setMembers] = useState<Member[]>([]);
-  const [myRole, setMyRole] = useState<"admin" | "member" | "none">("none");
+  const [myRole, setMyRole] = useState<Role | "none">("none");
   const [myOverrides, setMyOverrides] = useState<{ canChat?: boolean; canCall?: boolean }>({});
+  // messaggi e vocale sono leggibili solo dai membri (firestore.rules)
+  const joined = myRole !== "none";
+  // esito del loader: i listener dei membri partono solo quando si è dentro
+  const [access, setAccess] = useState<"loading" | "member" | "pending" | "rejected" | "none">("loading");
+  const liveRoom = useRoom(roomId, access !== "loading" && access !== "none");
+  const room = liveRoom ?? loadedRoom;
+  const [removed, setRemoved] = useState<"kicked" | "banned" | null>(null);
+  // offline: chat e calendario dalla cache, i messaggi scritti partono quando torna la rete
+  const online = useOnline();
+  const wasMemberRef = useRef(false);
+
+  // admin: gestione membri
+  const [membersOpen, setMembersOpen] = useState(false);
 
   // settings UI
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -119,146 +209,188 @@ export default function RoomPage() {
 
   // VOICE ROOM STATE
   const [voiceCallId, setVoiceCallId] = useState<string | null>(null);
-  const [voiceMembers, setVoiceMembers] = useState<VoiceMember[]>([]);
   const [voiceStatus, setVoiceStatus] = useState<string>("Vocale non attivo.");
   const [inVoice, setInVoice] = useState(false);
 
+  const [remoteMedia, setRemoteMedia] = useState<Record<string, RemoteMedia>>({});
+  // camera e schermo che sto mandando (lo stato per la UI, il ref per i callback dei track)
+  const [localVideo, setLocalVideo] = useState<LocalVideo>({ camera: null, screen: null });
+  const localVideoRef = useRef<LocalVideo>({ camera: null, screen: null });
+  const [peerStates, setPeerStates] = useState<Record<string, PeerState>>({});
+  // STUN/TURN della chiamata in corso (null fuori dal vocale)
+  const [roomIce, setRoomIce] = useState<RoomIce | null>(null);
+  // microfono: la traccia attuale (cambia col dispositivo), il mio muto e i dispositivi scelti
+  const [micTrack, setMicTrack] = useState<MediaStreamTrack | null>(null);
+  const [muted, setMuted] = useState(false);
+  const [audioDevices, setAudioDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [audioChoice, setAudioChoice] = useState<AudioChoice>(() => savedAudioChoice());
+
   // WebRTC
-  const pcRef = useRef<RTCPeerConnection | null>(null);
+  const meshRef = useRef<VoiceMesh | null>(null);
+  const callUnsubRef = useRef<(() => void) | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
-  const remoteAudioRef = useRef<HTMLAudioElement | null>(null);
-
-  useEffect(() => {
-    setSavedRooms(loadSavedRooms());
-  }, []);
-
-  useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u) => setUser(u));
-    return () => unsub();
-  }, []);
 
   // Load room and ensure defaults exist, then create member using defaults
   useEffect(() => {
     if (!roomId) return;
 
     const run = async () => {
-      const snap = await getDoc(doc(db, "rooms", roomId));
-      if (!snap.exists()) {
+      // la room la leggono solo i membri: si entra col codice (app/api/join)
+      let data0;
+      try {
+        data0 = await getRoom(roomId);
+      } catch (e) {
+        if ((e as { code?: string }).code === "unavailable") {
+          setStatus("Sei offline e questa room non è ancora salvata sul dispositivo: riaprila quando torna la rete.");
+          return;
+        }
+        if ((e as { code?: string }).code !== "permission-denied") throw e;
+        const code = new URL(window.location.href).searchParams.get("code");
+        if (user && code) {
+          window.location.href = `/join?code=${encodeURIComponent(code)}`;
+          return;
+        }
+        setAccess("none");
+        setStatus(user ? "Non fai parte di questa room: entra con il codice di invito." : "Fai il login per entrare.");
+        // non più membri: la room sparisce dall'elenco
+        if (user) forgetUserRoom(user.uid, roomId).catch(() => {});
+        return;
+      }
+      if (!data0) {
         setStatus("Room non trovata.");
+        if (user) forgetUserRoom(user.uid, roomId).catch(() => {});
         return;
       }
 
-      const data0 = snap.data() as RoomData;
+      const patch = missingRoomDefaults(data0);
 
-      const patch: Partial<RoomData> = {};
-      if (typeof data0.defaultCanChat !== "boolean") patch.defaultCanChat = true;
-      if (typeof data0.defaultCanCall !== "boolean") patch.defaultCanCall = true;
-      if (typeof data0.lockChat !== "boolean") patch.lockChat = false;
-      if (typeof data0.lockCalls !== "boolean") patch.lockCalls = false;
-
-      if (Object.keys(patch).length > 0) {
-        await updateDoc(doc(db, "rooms", roomId), patch as any);
+      // solo l'owner completa i default mancanti: per gli altri valgono solo in locale
+      if (Object.keys(patch).length > 0 && data0.adminUid === user?.uid && !data0.archived) {
+        updateRoom(roomId, patch).catch(() => {});
       }
 
       const data: RoomData = { ...data0, ...patch };
 
-      setRoom(data);
+      setLoadedRoom(data);
       setStatus("OK");
 
-      upsertRoom({ id: roomId, name: data.name, joinCode: data.joinCode });
-      setSavedRooms(loadSavedRooms());
-
-      const u = auth.currentUser;
-      if (u) {
-        const isAdmin = data.adminUid === u.uid;
-        await setDoc(
-          doc(db, "rooms", roomId, "members", u.uid),
-          {
-            uid: u.uid,
-            name: u.displayName ?? "utente",
-            role: isAdmin ? "admin" : "member",
-            canChat: isAdmin ? true : (data.defaultCanChat ?? true),
-            canCall: isAdmin ? true : (data.defaultCanCall ?? true),
-            joinedAt: serverTimestamp(),
-          },
-          { merge: true }
-        );
+      if (user) {
+        const isOwner = data.adminUid === user.uid;
+
+        // bannato: niente member doc
+        if (!isOwner && (await isBanned(roomId, user.uid))) {
+          setRemoved("banned");
+          setStatus("Sei stato bannato da questa room.");
+          forgetUserRoom(user.uid, roomId).catch(() => {});
+          return;
+        }
+
+        if (!(await refreshMember(roomId, { uid: user.uid, name: user.displayName ?? "utente" }, isOwner))) {
+          // room con approvazione: si vede solo la schermata di attesa
+          const request = await getMyJoinRequest(roomId, user.uid);
+          if (request) {
+            setAccess(request.status === "rejected" ? "rejected" : "pending");
+          } else {
+            setAccess("none");
+            setStatus("Non fai parte di questa room: entra con il codice di invito.");
+            forgetUserRoom(user.uid, roomId).catch(() => {});
+          }
+          return;
+        }
+        setAccess("member");
       }
     };
 
     run().catch(() => setStatus("Errore caricando la room."));
-  }, [roomId]);
+  }, [roomId, user]);
 
-  // Live room doc (for settings)
+  // In attesa di approvazione: la richiesta sparisce quando un admin decide
   useEffect(() => {
-    if (!roomId) return;
-    const unsub = onSnapshot(doc(db, "rooms", roomId), (snap) => {
-      if (!snap.exists()) return;
-      setRoom(snap.data() as any);
+    if (!roomId || !userUid || access !== "pending") return;
+
+    return subscribeMyJoinRequest(roomId, userUid, async (request) => {
+      if (request) {
+        if (request.status === "rejected") setAccess("rejected");
+        return;
+      }
+      const member = await getMember(roomId, userUid).catch(() => null);
+      setAccess(member ? "member" : "rejected");
     });
-    return () => unsub();
-  }, [roomId]);
+  }, [roomId, userUid, access]);
 
   // Messages
   useEffect(() => {
-    if (!roomId) return;
-
-    const q = query(collection(db, "rooms", roomId, "messages"), orderBy("createdAt", "asc"));
-    const unsub = onSnapshot(q, (snap) => {
-      const list: Msg[] = snap.docs.map((d) => {
-        const data = d.data() as any;
-        return { id: d.id, text: data.text, uid: data.uid, name: data.name };
-      });
-      setMessages(list);
-    });
-
-    return () => unsub();
-  }, [roomId]);
+    if (!roomId || !joined) return;
+
+    return subscribeLatestMessages(
+      roomId,
+      (changed) => setMessages((prev) => mergeMsgs(prev, changed)),
+      (cursor, older) => {
+        oldestDocRef.current = cursor;
+        setHasOlder(older);
+      }
+    );
+  }, [roomId, joined]);
 
   // Members + my role/overrides
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !userUid || access !== "member") return;
 
-    const unsub = onSnapshot(collection(db, "rooms", roomId, "members"), (snap) => {
-      const list: Member[] = snap.docs.map((d) => d.data() as any);
-      list.sort((a, b) => {
-        if (a.role !== b.role) return a.role === "admin" ? -1 : 1;
-        return (a.name || "").localeCompare(b.name || "");
-      });
+    return subscribeMembers(roomId, (list) => {
       setMembers(list);
 
-      const u = auth.currentUser;
-      if (!u) {
-        setMyRole("none");
-        setMyOverrides({});
-        return;
-      }
-      const me = list.find((m) => m.uid === u.uid);
+      const me = list.find((m) => m.uid === userUid);
       setMyRole(me?.role ?? "none");
       setMyOverrides({ canChat: me?.canChat, canCall: me?.canCall });
+
+      if (me && !unreadInitRef.current) {
+        unreadInitRef.current = true;
+        setUnreadSince(me.lastReadAt);
+      }
+
+      // il mio member doc è sparito: un moderatore/admin mi ha rimosso
+      if (me) wasMemberRef.current = true;
+      else if (wasMemberRef.current) {
+        wasMemberRef.current = false;
+        setRemoved((prev) => prev ?? "kicked");
+        setStatus("Sei stato rimosso dalla room.");
+        forgetUserRoom(userUid, roomId).catch(() => {});
+      }
     });
+  }, [roomId, userUid, access]);
+
+  // Il mio eventuale ban
+  useEffect(() => {
+    if (!roomId || !userUid) return;
+
+    return subscribeMyBan(roomId, userUid, () => {
+      setRemoved("banned");
+      setStatus("Sei stato bannato da questa room.");
+      forgetUserRoom(userUid, roomId).catch(() => {});
+    });
+  }, [roomId, userUid]);
+
+  const isOwner = useMemo(() => myRole === "owner", [myRole]);
+  const isAdmin = useMemo(() => roleAtLeast(myRole, "admin"), [myRole]);
+  const isModerator = useMemo(() => roleAtLeast(myRole, "moderator"), [myRole]);
 
-    return () => unsub();
-  }, [roomId]);
+  // posso gestire un membro solo se ho un ruolo più alto del suo
+  const outranks = (m: Member) => myRole !== "none" && ROLE_RANK[myRole] > (ROLE_RANK[m.role] ?? 0);
 
-  const isAdmin = useMemo(() => myRole === "admin", [myRole]);
+  const bans = useBans(roomId, isAdmin);
+  // richieste di ingresso da approvare
+  const joinRequests = useJoinRequests(roomId, isAdmin);
 
   // Effective permissions
   const effectiveCanChat = useMemo(() => {
-    if (!user || !room) return false;
-    if (isAdmin) return true;
-    if (room.lockChat) return false;
-    if (typeof myOverrides.canChat === "boolean") return myOverrides.canChat;
-    return room.defaultCanChat ?? true;
-  }, [user, room, isAdmin, myOverrides.canChat]);
+    if (!user || !room || removed || myRole === "none") return false;
+    return memberCanChat(room, { role: myRole, canChat: myOverrides.canChat });
+  }, [user, room, removed, myRole, myOverrides.canChat]);
 
   const effectiveCanCall = useMemo(() => {
-    if (!user || !room) return false;
-    if (isAdmin) return true;
-    if (room.lockCalls) return false;
-    if (typeof myOverrides.canCall === "boolean") return myOverrides.canCall;
-    return room.defaultCanCall ?? true;
-  }, [user, room, isAdmin, myOverrides.canCall]);
+    if (!user || !room || removed || myRole === "none") return false;
+    return memberCanCall(room, { role: myRole, canCall: myOverrides.canCall });
+  }, [user, room, removed, myRole, myOverrides.canCall]);
 
   const send = async () => {
     if (!user || !effectiveCanChat) return;
@@ -266,333 +398,575 @@ export default function RoomPage() {
     if (!t) return;
 
     setText("");
-    await addDoc(collection(db, "rooms", roomId, "messages"), {
-      text: t,
-      uid: user.uid,
-      name: user.displayName ?? "utente",
-      createdAt: serverTimestamp(),
-    });
+    try {
+      await sendMessage(roomId, { uid: user.uid, name: user.displayName ?? "utente" }, t);
+    } catch {
+      // rifiutato (chat bloccata, room archiviata…): il testo torna nel campo
+      setText((cur) => cur || t);
+      alert("Errore inviando il messaggio.");
+    }
   };
 
-  // -------- VOICE ROOM: Firestore state + members presence --------
+  // carica il file e lo manda insieme al testo scritto (se c'è)
+  const sendFile = async (file: File) => {
+    if (!user || !effectiveCanChat || uploadPct !== null) return;
+    if (!online) {
+      setUploadError("Sei offline: gli allegati si caricano solo con la rete.");
+      return;
+    }
+    const err = validateAttachment(file);
+    if (err) {
+      setUploadError(err);
+      return;
+    }
+
+    setUploadError(null);
+    setUploadPct(0);
+    let attachment: Attachment;
+    try {
+      attachment = await uploadAttachment(roomId, user.uid, file, setUploadPct);
+    } catch {
+      setUploadError("Errore caricando il file.");
+      setUploadPct(null);
+      return;
+    }
+
+    const t = text.trim();
+    setText("");
+    try {
+      await sendMessage(roomId, { uid: user.uid, name: user.displayName ?? "utente" }, t, attachment);
+    } catch {
+      // messaggio rifiutato: il file non serve più, il testo torna nel campo
+      removeAttachment(attachment.path).catch(() => {});
+      setText((cur) => cur || t);
+      setUploadError("Errore inviando il messaggio.");
+    } finally {
+      setUploadPct(null);
+    }
+  };
+
+  const loadOlder = async () => {
+    const cursor = oldestDocRef.current;
+    if (!roomId || !cursor || loadingOlder || !hasOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await loadOlderMessages(roomId, cursor);
+      oldestDocRef.current = page.cursor;
+      setHasOlder(page.hasOlder);
+
+      const el = chatBoxRef.current;
+      if (el) prependRef.current = { height: el.scrollHeight, top: el.scrollTop };
+      setMessages((prev) => mergeMsgs(prev, page.messages));
+    } catch {
+      // riproverà al prossimo scroll
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const onChatScroll = () => {
+    const el = chatBoxRef.current;
+    if (!el) return;
+    atBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+    if (el.scrollTop < 40) loadOlder();
+  };
+
+  // pagine vecchie: resta fermo sul messaggio che si stava leggendo; nuovi messaggi: segui il fondo
+  useLayoutEffect(() => {
+    const el = chatBoxRef.current;
+    if (!el) return;
+    const prepend = prependRef.current;
+    if (prepend) {
+      prependRef.current = null;
+      el.scrollTop = el.scrollHeight - prepend.height + prepend.top;
+      return;
+    }
+    if (atBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [messages, tab]);
+
+  // segna come letto l'ultimo messaggio (solo con la pagina visibile)
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !userUid || !joined || removed) return;
+    const last = messages[messages.length - 1];
+    if (!last || lastMarkedRef.current === last.id) return;
+
+    const mark = () => {
+      if (document.visibilityState !== "visible" || lastMarkedRef.current === last.id) return;
+      lastMarkedRef.current = last.id;
+      markRead(roomId, userUid).catch(() => {});
+    };
+    mark();
+    document.addEventListener("visibilitychange", mark);
+    return () => document.removeEventListener("visibilitychange", mark);
+  }, [messages, roomId, userUid, joined, removed]);
+
+  const firstUnreadId = useMemo(() => {
+    if (!unreadSince) return null;
+    const m = messages.find((x) => x.createdAt && x.createdAt > unreadSince && x.uid !== userUid);
+    return m?.id ?? null;
+  }, [messages, unreadSince, userUid]);
+
+  // la room compare (con nome e codice aggiornati) nell'elenco di chi ne fa parte,
+  // anche dopo l'approvazione di una richiesta o per le room create prima dell'elenco
+  const liveRoomName = room?.name;
+  const liveJoinCode = room?.joinCode;
+  useEffect(() => {
+    if (!roomId || !userUid || access !== "member" || liveRoomName === undefined) return;
+    saveUserRoom(userUid, { id: roomId, name: liveRoomName, joinCode: liveJoinCode }).catch(() => {});
+  }, [roomId, userUid, access, liveRoomName, liveJoinCode]);
 
-    const voiceRef = doc(db, "rooms", roomId, "voice", "current");
-    const unsub = onSnapshot(voiceRef, (snap) => {
-      if (!snap.exists()) {
-        setVoiceCallId(null);
-        setVoiceStatus("Vocale non attivo.");
-        return;
+  // non letti delle altre room salvate (si ricalcolano solo se cambia l'elenco, non all'apertura)
+  const savedRoomIds = savedRooms.map((r) => r.id).join(",");
+  useEffect(() => {
+    if (!userUid || !savedRoomIds) return;
+    let cancelled = false;
+
+    const run = async () => {
+      const counts: Record<string, number> = {};
+      for (const id of savedRoomIds.split(",")) {
+        if (id === roomId) continue;
+        try {
+          const lastReadAt = (await getMember(id, userUid))?.lastReadAt;
+          if (!lastReadAt) continue;
+          counts[id] = await countMessagesSince(id, lastReadAt);
+        } catch {}
       }
-      const data = snap.data() as VoiceStateDoc;
-      const cid = (data.callId ?? null) as any;
-      setVoiceCallId(typeof cid === "string" ? cid : null);
-      setVoiceStatus(typeof cid === "string" ? "Vocale attivo." : "Vocale non attivo.");
-    });
+      if (!cancelled) setUnreadCounts(counts);
+    };
 
-    return () => unsub();
-  }, [roomId]);
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [savedRoomIds, roomId, userUid]);
+
+  const startEdit = (m: Msg) => {
+    setEditingId(m.id);
+    setEditText(m.text);
+  };
+
+  const saveEdit = async () => {
+    if (!user || !editingId || !effectiveCanChat) return;
+    const t = editText.trim();
+    if (!t) return;
+
+    const id = editingId;
+    setEditingId(null);
+    try {
+      await editMessage(roomId, id, t);
+    } catch {
+      alert("Errore modificando il messaggio.");
+    }
+  };
+
+  // l'autore elimina i propri messaggi, i moderatori quelli di tutti
+  const removeMessage = async (m: Msg) => {
+    if (!user || m.deleted) return;
+    if (m.uid !== user.uid && !isModerator) return;
+    if (!confirm("Vuoi eliminare questo messaggio?")) return;
+
+    try {
+      await deleteMessage(roomId, user.uid, m);
+    } catch {
+      alert("Errore eliminando il messaggio.");
+    }
+  };
 
+  // -------- VOICE ROOM: Firestore state + members presence --------
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !joined) return;
 
-    const q = query(collection(db, "rooms", roomId, "voiceMembers"), orderBy("joinedAt", "asc"));
-    const unsub = onSnapshot(q, (snap) => {
-      const list: VoiceMember[] = snap.docs.map((d) => d.data() as any);
-      setVoiceMembers(list);
+    return subscribeVoiceCall(roomId, (cid) => {
+      setVoiceCallId(cid);
+      setVoiceStatus(cid ? "Vocale attivo." : "Vocale non attivo.");
     });
+  }, [roomId, joined]);
+
+  // heartbeat: chi è fermo da STALE_MS non conta più (né in vocale né online)
+  const now = useNow(HEARTBEAT_MS);
+  const allVoiceMembers = useVoiceMembers(roomId, joined);
+  const voiceMembers = useMemo(() => allVoiceMembers.filter((m) => isFresh(m.lastSeenAt, now)), [allVoiceMembers, now]);
+  const presence = usePresence(roomId, joined);
+  const onlineUids = useMemo(
+    () => new Set(presence.filter((p) => isOnline(p, now)).map((p) => p.uid)),
+    [presence, now]
+  );
 
-    return () => unsub();
-  }, [roomId]);
+  // fantasmi in vocale e chiamate rimaste vuote: li ripulisce chiunque abbia la room aperta
+  useEffect(() => {
+    if (!roomId || !userUid || !joined || removed) return;
+    if (allVoiceMembers.length > voiceMembers.length) pruneVoiceMembers(roomId, allVoiceMembers, now).catch(() => {});
+    if (voiceCallId && voiceMembers.length === 0 && !inVoice) {
+      endCallIfEmpty(roomId, voiceCallId).catch(() => {});
+    }
+  }, [roomId, userUid, joined, removed, allVoiceMembers, voiceMembers, now, voiceCallId, inVoice]);
 
-  // -------- WebRTC (riusiamo la stessa logica ma senza link) --------
-  const iceServers = useMemo(
-    () => ({ iceServers: [{ urls: ["stun:stun.l.google.com:19302"] }] }),
-    []
-  );
+  // sono online finché ho la room aperta (e in background finché il browser tiene vivi i timer)
+  useEffect(() => {
+    if (!roomId || !user || access !== "member" || removed) return;
+    const me = { uid: user.uid, name: user.displayName ?? "utente" };
+
+    const beat = () => markOnline(roomId, me).catch(() => {});
+    const onVisible = () => {
+      if (document.visibilityState === "visible") beat();
+    };
+    beat();
+    const t = setInterval(beat, HEARTBEAT_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearInterval(t);
+      document.removeEventListener("visibilitychange", onVisible);
+      markOffline(roomId, me.uid).catch(() => {});
+    };
+  }, [roomId, user, access, removed]);
+
+  // -------- WebRTC mesh: una connessione per ogni coppia in vocale --------
+  // tiene le connessioni allineate con "In vocale adesso"
+  useEffect(() => {
+    meshRef.current?.sync(voiceMembers);
+  }, [voiceMembers]);
 
   const cleanupCall = async () => {
     try {
-      pcRef.current?.close();
+      meshRef.current?.close();
     } catch {}
-    pcRef.current = null;
+    meshRef.current = null;
 
     try {
-      localStreamRef.current?.getTracks().forEach((t) => t.stop());
+      callUnsubRef.current?.();
     } catch {}
-    localStreamRef.current = null;
+    callUnsubRef.current = null;
 
     try {
-      if (remoteAudioRef.current) remoteAudioRef.current.srcObject = null;
+      localStreamRef.current?.getTracks().forEach((t) => t.stop());
+      localVideoRef.current.camera?.getTracks().forEach((t) => t.stop());
+      localVideoRef.current.screen?.getTracks().forEach((t) => t.stop());
     } catch {}
-
+    localStreamRef.current = null;
+    localVideoRef.current = { camera: null, screen: null };
+    setLocalVideo({ camera: null, screen: null });
+    setMicTrack(null);
+    setMuted(false);
+
+    setRemoteMedia({});
+    setPeerStates({});
+    setRoomIce(null);
     setInVoice(false);
   };
 
-  const createCallDoc = async () => {
-    if (!user) throw new Error("Not logged");
-    const callRef = await addDoc(collection(db, "rooms", roomId, "calls"), {
-      createdAt: serverTimestamp(),
-      createdByUid: user.uid,
-      status: "open",
-    } as CallDoc);
-    return callRef.id;
-  };
+  // rimosso dalla room (kick/ban): si esce anche dal vocale
+  useEffect(() => {
+    if (!removed || !inVoice) return;
+    if (userUid) leaveVoice(roomId, userUid).catch(() => {});
+    cleanupCall().then(() => setVoiceStatus("Sei stato rimosso dalla room."));
+  }, [removed, inVoice, roomId, userUid]);
 
-  const startAsCaller = async (callId: string) => {
+  const joinMesh = async (callId: string) => {
     if (!user) return;
-    setVoiceStatus("Entro in vocale… (creo sessione)");
+    setVoiceStatus("Entro in vocale…");
 
-    const localStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+    // server STUN/TURN della room (lib/ice.ts) mentre il browser chiede il microfono
+    const icePromise = getRoomIce(roomId);
+    const localStream = await navigator.mediaDevices.getUserMedia(micConstraints(audioChoice.micId));
     localStreamRef.current = localStream;
-
-    const pc = new RTCPeerConnection(iceServers);
-    pcRef.current = pc;
-
-    localStream.getTracks().forEach((track) => pc.addTrack(track, localStream));
-
-    const remoteStream = new MediaStream();
-    pc.ontrack = (event) => {
-      event.streams[0].getTracks().forEach((t) => remoteStream.addTrack(t));
-      if (remoteAudioRef.current) remoteAudioRef.current.srcObject = remoteStream;
-    };
-
-    const offerCandidates = collection(db, "rooms", roomId, "calls", callId, "offerCandidates");
-    pc.onicecandidate = async (event) => {
-      if (event.candidate) await addDoc(offerCandidates, event.candidate.toJSON());
-    };
-
-    const offerDescription = await pc.createOffer();
-    await pc.setLocalDescription(offerDescription);
-
-    await updateDoc(doc(db, "rooms", roomId, "calls", callId), {
-      offer: { type: offerDescription.type, sdp: offerDescription.sdp },
+    const ice = await icePromise;
+    setRoomIce(ice);
+    setMicTrack(localStream.getAudioTracks()[0] ?? null);
+
+    const session = newVoiceSession();
+    const mesh = createVoiceMesh({
+      roomId,
+      callId,
+      uid: user.uid,
+      session,
+      localStream,
+      rtcConfig: rtcConfigOf(ice),
+      onRemoteMedia: (uid, media) =>
+        setRemoteMedia((prev) => {
+          const next = { ...prev };
+          if (media) next[uid] = media;
+          else delete next[uid];
+          return next;
+        }),
+      onPeerState: (uid, state) => setPeerStates((prev) => ({ ...prev, [uid]: state })),
     });
+    meshRef.current = mesh;
+    mesh.sync(voiceMembers);
 
-    // listen for answer
-    onSnapshot(doc(db, "rooms", roomId, "calls", callId), async (snap) => {
-      const data = snap.data() as any;
-      if (!data) return;
-      if (!pc.currentRemoteDescription && data.answer) {
-        await pc.setRemoteDescription(new RTCSessionDescription(data.answer));
-        setVoiceStatus("Connesso ✅ (audio)");
-      }
-      if (data.status === "ended") {
-        setVoiceStatus("Vocale chiuso.");
-        await cleanupCall();
-      }
+    // end handling
+    callUnsubRef.current = subscribeCallStatus(roomId, callId, async (callStatus) => {
+      if (callStatus !== "ended") return;
+      setVoiceStatus("Vocale chiuso.");
+      await cleanupCall();
+      await leaveVoice(roomId, user.uid).catch(() => {});
     });
 
-    // listen for answer candidates
-    const answerCandidates = collection(db, "rooms", roomId, "calls", callId, "answerCandidates");
-    onSnapshot(answerCandidates, (snap) => {
-      snap.docChanges().forEach(async (change) => {
-        if (change.type === "added") {
-          try {
-            await pc.addIceCandidate(new RTCIceCandidate(change.doc.data()));
-          } catch {}
-        }
-      });
-    });
+    // presence (con la session: gli altri si connettono a questa)
+    await joinVoice(roomId, { uid: user.uid, name: user.displayName ?? "utente" }, session);
 
     setInVoice(true);
     setVoiceStatus("In vocale ✅");
   };
 
-  const joinAsCallee = async (callId: string) => {
-    if (!user) return;
-    setVoiceStatus("Entro in vocale… (mi unisco)");
-
-    const callDocRef = doc(db, "rooms", roomId, "calls", callId);
-    const callSnap = await getDoc(callDocRef);
-    if (!callSnap.exists()) {
-      setVoiceStatus("Sessione vocale non trovata.");
+  const enterVoice = async () => {
+    if (!user || !roomId) return;
+    if (!effectiveCanCall) {
+      setVoiceStatus("Non hai permessi per il vocale in questa room.");
       return;
     }
-    const callData = callSnap.data() as any;
-    if (!callData.offer) {
-      setVoiceStatus("Sessione non pronta (manca offer). Riprova tra 2 secondi.");
-      return;
+
+    // nessuna chiamata aperta → se ne crea una nuova (voice/current)
+    const cid = await openVoiceCall(roomId, user.uid, () => setVoiceStatus("Creo stanza vocale…"));
+
+    // tutti entrano allo stesso modo: ci si connette a chi c'è già, e chi arriva dopo si connette a noi
+    setVoiceCallId(cid);
+    try {
+      await joinMesh(cid);
+    } catch {
+      setVoiceStatus("Impossibile entrare in vocale (microfono?).");
+      await cleanupCall();
     }
+  };
 
-    const localStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-    localStreamRef.current = localStream;
+  const exitVoice = async () => {
+    if (!user || !roomId) return;
 
-    const pc = new RTCPeerConnection(iceServers);
-    pcRef.current = pc;
+    // prima si riaggancia, poi si toglie la presenza (il doc che sparisce non sembra una rimozione)
+    await cleanupCall();
+    setVoiceStatus("Sei uscito dal vocale.");
+    await leaveVoice(roomId, user.uid).catch(() => {});
 
-    localStream.getTracks().forEach((track) => pc.addTrack(track, localStream));
+    // ero l'ultimo: la chiamata si chiude
+    if (voiceCallId) await endCallIfEmpty(roomId, voiceCallId, 0).catch(() => {});
+  };
 
-    const remoteStream = new MediaStream();
-    pc.ontrack = (event) => {
-      event.streams[0].getTracks().forEach((t) => remoteStream.addTrack(t));
-      if (remoteAudioRef.current) remoteAudioRef.current.srcObject = remoteStream;
-    };
+  // heartbeat in vocale; se il mio doc non c'è più (pagina ferma troppo a lungo) si esce
+  useEffect(() => {
+    if (!roomId || !userUid || !inVoice) return;
 
-    const answerCandidates = collection(db, "rooms", roomId, "calls", callId, "answerCandidates");
-    pc.onicecandidate = async (event) => {
-      if (event.candidate) await addDoc(answerCandidates, event.candidate.toJSON());
+    const beat = () =>
+      heartbeatVoice(roomId, userUid).catch(async () => {
+        await cleanupCall();
+        setVoiceStatus("Sei uscito dal vocale (connessione persa).");
+      });
+    const onVisible = () => {
+      if (document.visibilityState === "visible") beat();
     };
+    const t = setInterval(beat, HEARTBEAT_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearInterval(t);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [roomId, userUid, inVoice]);
 
-    await pc.setRemoteDescription(new RTCSessionDescription(callData.offer));
+  // -------- Microfono: muto, dispositivi, chi parla --------
+  const myVoice = useMemo(() => allVoiceMembers.find((m) => m.uid === userUid) ?? null, [allVoiceMembers, userUid]);
+  const forceMuted = myVoice?.forceMuted === true;
 
-    const answerDesc = await pc.createAnswer();
-    await pc.setLocalDescription(answerDesc);
+  useEffect(() => {
+    const enabled = !muted && !forceMuted;
+    localStreamRef.current?.getAudioTracks().forEach((t) => (t.enabled = enabled));
+  }, [micTrack, muted, forceMuted]);
 
-    await updateDoc(callDocRef, {
-      answer: { type: answerDesc.type, sdp: answerDesc.sdp },
-      status: "connected",
-    });
+  // il mio doc in vocale sparisce mentre sono dentro: un moderatore mi ha tolto
+  const sawMyVoiceRef = useRef(false);
+  useEffect(() => {
+    if (!inVoice) {
+      sawMyVoiceRef.current = false;
+      return;
+    }
+    if (myVoice) {
+      sawMyVoiceRef.current = true;
+      return;
+    }
+    if (!sawMyVoiceRef.current) return;
+    sawMyVoiceRef.current = false;
+    cleanupCall().then(() => setVoiceStatus("Un moderatore ti ha tolto dal vocale."));
+  }, [inVoice, myVoice]);
 
-    // offer candidates
-    const offerCandidates = collection(db, "rooms", roomId, "calls", callId, "offerCandidates");
-    onSnapshot(offerCandidates, (snap) => {
-      snap.docChanges().forEach(async (change) => {
-        if (change.type === "added") {
-          try {
-            await pc.addIceCandidate(new RTCIceCandidate(change.doc.data()));
-          } catch {}
-        }
-      });
-    });
+  useEffect(() => {
+    if (!inVoice) return;
+    const refresh = () => listAudioDevices().then(setAudioDevices).catch(() => {});
+    refresh();
+    return subscribeDeviceChange(refresh);
+  }, [inVoice]);
+
+  const speakingTracks = useMemo(() => {
+    const tracks: Record<string, MediaStreamTrack> = {};
+    if (userUid && micTrack) tracks[userUid] = micTrack;
+    for (const [uid, media] of Object.entries(remoteMedia)) {
+      const track = media.audio.getAudioTracks()[0];
+      if (track) tracks[uid] = track;
+    }
+    return tracks;
+  }, [userUid, micTrack, remoteMedia]);
+  const speaking = useSpeaking(speakingTracks);
+  const speakingUids = useMemo(() => new Set(speaking), [speaking]);
+  const isSpeaking = (m: VoiceMember) => speakingUids.has(m.uid) && !m.forceMuted;
+
+  const toggleMute = async () => {
+    if (!inVoice || !user || forceMuted) return;
+    const next = !muted;
+    setMuted(next);
+    await setVoiceMuted(roomId, user.uid, next).catch(() => {});
+  };
 
-    // end handling
-    onSnapshot(callDocRef, async (snap) => {
-      const data = snap.data() as any;
-      if (!data) return;
-      if (data.status === "ended") {
-        setVoiceStatus("Vocale chiuso.");
-        await cleanupCall();
+  // cambio microfono a chiamata in corso: replaceTrack, come per la camera
+  const switchMic = async (micId: string) => {
+    setAudioChoice((c) => ({ ...c, micId }));
+    saveAudioChoice({ micId });
+    const mesh = meshRef.current;
+    const stream = localStreamRef.current;
+    if (!mesh || !stream) return;
+    try {
+      const fresh = await navigator.mediaDevices.getUserMedia(micConstraints(micId, true));
+      const track = fresh.getAudioTracks()[0];
+      if (meshRef.current !== mesh) {
+        track.stop();
+        return;
       }
-    });
+      await mesh.setTrack("audio", track);
+      stream.getAudioTracks().forEach((t) => {
+        t.stop();
+        stream.removeTrack(t);
+      });
+      stream.addTrack(track);
+      setMicTrack(track);
+    } catch {
+      setVoiceStatus("Impossibile usare quel microfono.");
+    }
+  };
 
-    setInVoice(true);
-    setVoiceStatus("In vocale ✅");
+  const switchSpeaker = (speakerId: string) => {
+    const id = speakerId || null;
+    setAudioChoice((c) => ({ ...c, speakerId: id }));
+    saveAudioChoice({ speakerId: id });
   };
 
-  const ensureVoiceStateDoc = async () => {
-    const voiceRef = doc(db, "rooms", roomId, "voice", "current");
-    const snap = await getDoc(voiceRef);
-    if (!snap.exists()) {
-      await setDoc(
-        voiceRef,
-        { callId: null, updatedAt: serverTimestamp(), updatedByUid: user?.uid ?? null } as VoiceStateDoc,
-        { merge: true }
-      );
-    }
+  // moderatori in su, su chi ha un ruolo più basso
+  const canManageVoice = (m: VoiceMember) => {
+    const target = members.find((x) => x.uid === m.uid);
+    return isModerator && m.uid !== user?.uid && !!target && outranks(target);
   };
 
-  const enterVoice = async () => {
-    if (!user || !roomId) return;
-    if (!effectiveCanCall) {
-      setVoiceStatus("Non hai permessi per il vocale in questa room.");
-      return;
+  const toggleForceMute = async (m: VoiceMember) => {
+    if (!roomId || !user || !canManageVoice(m)) return;
+    try {
+      await forceMuteVoice(roomId, m.uid, !m.forceMuted, user.uid);
+    } catch {
+      alert("Errore silenziando il partecipante.");
     }
+  };
 
-    await ensureVoiceStateDoc();
+  const kickFromVoice = async (m: VoiceMember) => {
+    if (!roomId || !canManageVoice(m)) return;
+    if (!confirm(`Vuoi togliere ${m.name} dal vocale? Potrà rientrare solo quando riattivi il suo 🎙 tra i membri.`)) return;
+    try {
+      await removeFromVoice(roomId, m.uid);
+    } catch {
+      alert("Errore togliendo il partecipante dal vocale.");
+    }
+  };
 
-    // presence
-    await setDoc(
-      doc(db, "rooms", roomId, "voiceMembers", user.uid),
-      {
-        uid: user.uid,
-        name: user.displayName ?? "utente",
-        joinedAt: serverTimestamp(),
-      } as VoiceMember,
-      { merge: true }
-    );
+  // -------- Camera e condivisione schermo (a chiamata in corso, senza rinegoziare) --------
+  const stopLocalVideo = async (slot: "camera" | "screen") => {
+    const stream = localVideoRef.current[slot];
+    if (!stream) return;
+    stream.getTracks().forEach((t) => t.stop());
+    localVideoRef.current = { ...localVideoRef.current, [slot]: null };
+    setLocalVideo(localVideoRef.current);
+    await meshRef.current?.setTrack(slot, null);
+    if (user) await setVoiceMedia(roomId, user.uid, { [slot]: false }).catch(() => {});
+  };
 
-    const voiceRef = doc(db, "rooms", roomId, "voice", "current");
-    const snap = await getDoc(voiceRef);
-    const data = snap.exists() ? (snap.data() as VoiceStateDoc) : { callId: null };
-
-    // if no callId → create new call + set voice/current
-    if (!data.callId) {
-      setVoiceStatus("Creo stanza vocale…");
-      const newCallId = await createCallDoc();
-      await updateDoc(voiceRef, {
-        callId: newCallId,
-        updatedAt: serverTimestamp(),
-        updatedByUid: user.uid,
-      } as any);
-
-      setVoiceCallId(newCallId);
-      await startAsCaller(newCallId);
+  const startLocalVideo = async (slot: "camera" | "screen", stream: MediaStream) => {
+    const mesh = meshRef.current;
+    const track = stream.getVideoTracks()[0];
+    if (!user || !mesh || !track) {
+      stream.getTracks().forEach((t) => t.stop());
       return;
     }
-
-    // else join existing
-    const cid = data.callId as string;
-    setVoiceCallId(cid);
-
-    // se sono io che ho creato e non sono connesso, parto da caller solo se non esiste answer
-    // (semplice: proviamo joinAsCallee; se non pronta, riproverà)
-    await joinAsCallee(cid);
+    // "Interrompi condivisione" del browser
+    track.onended = () => {
+      if (localVideoRef.current[slot] === stream) stopLocalVideo(slot);
+    };
+    localVideoRef.current = { ...localVideoRef.current, [slot]: stream };
+    setLocalVideo(localVideoRef.current);
+    await mesh.setTrack(slot, track);
+    await setVoiceMedia(roomId, user.uid, { [slot]: true }).catch(() => {});
   };
 
-  const exitVoice = async () => {
-    if (!user || !roomId) return;
-
-    // remove presence
+  const toggleCamera = async () => {
+    if (!inVoice) return;
+    if (localVideoRef.current.camera) return stopLocalVideo("camera");
     try {
-      await deleteDoc(doc(db, "rooms", roomId, "voiceMembers", user.uid));
-    } catch {}
-
-    // hang up local
-    await cleanupCall();
-    setVoiceStatus("Sei uscito dal vocale.");
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 640 }, height: { ideal: 360 }, facingMode: "user" },
+      });
+      await startLocalVideo("camera", stream);
+    } catch {
+      setVoiceStatus("Impossibile accendere la camera.");
+    }
   };
 
-  const closeVoiceForAll = async () => {
-    if (!isAdmin || !roomId) return;
-    const voiceRef = doc(db, "rooms", roomId, "voice", "current");
-    const snap = await getDoc(voiceRef);
-    const data = snap.exists() ? (snap.data() as VoiceStateDoc) : null;
-
-    // end call doc
-    if (data?.callId) {
-      try {
-        await updateDoc(doc(db, "rooms", roomId, "calls", data.callId), { status: "ended" } as any);
-      } catch {}
+  const toggleScreen = async () => {
+    if (!inVoice) return;
+    if (localVideoRef.current.screen) return stopLocalVideo("screen");
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      await startLocalVideo("screen", stream);
+    } catch {
+      // annullato dall'utente o non supportato
     }
+  };
 
-    // reset voice current
-    await setDoc(
-      voiceRef,
-      { callId: null, updatedAt: serverTimestamp(), updatedByUid: user?.uid ?? null } as VoiceStateDoc,
-      { merge: true }
-    );
+  const closeVoiceForAll = async () => {
+    if (!isModerator || !roomId || !user) return;
+    await endVoiceForAll(roomId, user.uid);
 
     setVoiceCallId(null);
     setVoiceStatus("Vocale chiuso per tutti.");
   };
 
-  // Safety: on unload remove voice presence
+  // chiusura della pagina: avviso subito (fire-and-forget), se non arriva scade l'heartbeat
   useEffect(() => {
     const handler = () => {
-      try {
-        const u = auth.currentUser;
-        if (u && roomId) {
-          // fire-and-forget
-          deleteDoc(doc(db, "rooms", roomId, "voiceMembers", u.uid)).catch(() => {});
-        }
-      } catch {}
+      if (!userUid || !roomId) return;
+      leaveVoice(roomId, userUid).catch(() => {});
+      markOffline(roomId, userUid).catch(() => {});
     };
-    window.addEventListener("beforeunload", handler);
-    return () => window.removeEventListener("beforeunload", handler);
-  }, [roomId]);
+    window.addEventListener("pagehide", handler);
+    return () => window.removeEventListener("pagehide", handler);
+  }, [roomId, userUid]);
 
   const goToRoom = (id: string) => {
     window.location.href = `/room/${id}`;
   };
 
-  const updateRoomSetting = async (patch: Partial<RoomData>) => {
-    if (!isAdmin) return;
+  // i moderatori gestiscono solo i blocchi chat/vocale, il resto è da admin
+  const updateRoomSetting = async (patch: RoomSettings) => {
+    const lockOnly = Object.keys(patch).every((k) => k === "lockChat" || k === "lockCalls");
+    if (!isAdmin && !(isModerator && lockOnly)) return;
     if (!roomId) return;
     setSavingSettings("Salvo…");
     try {
-      await updateDoc(doc(db, "rooms", roomId), patch as any);
+      await updateRoom(roomId, patch);
+      setSavingSettings("Salvato ✅");
+      setTimeout(() => setSavingSettings(null), 900);
+    } catch {
+      setSavingSettings("Errore salvando.");
+      setTimeout(() => setSavingSettings(null), 1200);
+    }
+  };
+
+  // -------- Gestione membri (moderatori in su) --------
+  const updateMemberOverride = async (m: Member, patch: { canChat?: boolean; canCall?: boolean }) => {
+    if (!isModerator || !roomId || !outranks(m)) return;
+    setSavingSettings("Salvo…");
+    try {
+      await updateMember(roomId, m.uid, patch);
       setSavingSettings("Salvato ✅");
       setTimeout(() => setSavingSettings(null), 900);
     } catch {
@@ -601,6 +975,124 @@ export default function RoomPage() {
     }
   };
 
+  const kickMember = async (m: Member) => {
+    if (!isModerator || !roomId || !outranks(m)) return;
+    if (!confirm(`Vuoi rimuovere ${m.name} dalla room? Potrà rientrare con il codice.`)) return;
+    try {
+      await removeMember(roomId, m.uid);
+    } catch {
+      alert("Errore rimuovendo il membro.");
+    }
+  };
+
+  const banMember = async (m: Member) => {
+    if (!isAdmin || !roomId || !user || !outranks(m)) return;
+    if (!confirm(`Vuoi bannare ${m.name}? Non potrà più entrare nella room.`)) return;
+    try {
+      await banRoomMember(roomId, user.uid, m);
+    } catch {
+      alert("Errore bannando il membro.");
+    }
+  };
+
+  const approveRequest = async (r: JoinRequest) => {
+    if (!isAdmin || !roomId || !room) return;
+    try {
+      await approveJoinRequest(roomId, room, r);
+    } catch {
+      alert("Errore approvando la richiesta.");
+    }
+  };
+
+  const rejectRequest = async (r: JoinRequest) => {
+    if (!isAdmin || !roomId || !user) return;
+    if (!confirm(`Rifiutare la richiesta di ${r.name}?`)) return;
+    try {
+      await rejectJoinRequest(roomId, user.uid, r.uid);
+    } catch {
+      alert("Errore rifiutando la richiesta.");
+    }
+  };
+
+  const unbanMember = async (b: Ban) => {
+    if (!isAdmin || !roomId) return;
+    if (!confirm(`Vuoi togliere il ban a ${b.name}?`)) return;
+    try {
+      await unbanRoomMember(roomId, b.uid);
+    } catch {
+      alert("Errore togliendo il ban.");
+    }
+  };
+
+  const setMemberRole = async (m: Member, role: Exclude<Role, "owner">) => {
+    if (!isOwner || !roomId || m.role === "owner" || m.role === role) return;
+    setSavingSettings("Salvo…");
+    try {
+      await updateMember(roomId, m.uid, { role });
+      setSavingSettings("Salvato ✅");
+      setTimeout(() => setSavingSettings(null), 900);
+    } catch {
+      setSavingSettings("Errore salvando.");
+      setTimeout(() => setSavingSettings(null), 1200);
+    }
+  };
+
+  // l'owner passa la room a un altro membro e resta admin
+  const transferOwnership = async (m: Member) => {
+    if (!isOwner || !roomId || !user || m.uid === user.uid) return;
+    if (!confirm(`Vuoi rendere ${m.name} owner della room? Tu diventerai admin.`)) return;
+    try {
+      await transferRoomOwnership(roomId, user.uid, m.uid);
+    } catch {
+      alert("Errore trasferendo la room.");
+    }
+  };
+
+  // -------- Archiviazione, eliminazione, uscita --------
+
+  // archiviata: chi è in vocale viene chiuso fuori, chat e calendario restano leggibili
+  const toggleArchived = async () => {
+    if (!isOwner || !roomId || !user || !room) return;
+    const archive = !room.archived;
+    if (archive && !confirm("Archiviare la room? Diventa di sola lettura per tutti finché non la riapri.")) return;
+    try {
+      if (archive) await endVoiceForAll(roomId, user.uid).catch(() => {});
+      await setRoomArchived(roomId, archive);
+    } catch {
+      alert(archive ? "Errore archiviando la room." : "Errore riaprendo la room.");
+    }
+  };
+
+  const deleteForever = async () => {
+    if (!isOwner || !roomId || !room) return;
+    const typed = prompt(`Eliminare per sempre la room con messaggi, calendario e allegati?\nScrivi "${room.name}" per confermare.`);
+    if (typed === null) return;
+    if (typed.trim() !== room.name) {
+      alert("Il nome non corrisponde: la room non è stata eliminata.");
+      return;
+    }
+    try {
+      await deleteRoom(roomId);
+      window.location.href = "/";
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Errore eliminando la room.");
+    }
+  };
+
+  const leave = async () => {
+    if (!roomId || !user || isOwner) return;
+    if (!confirm("Vuoi uscire dalla room? Per rientrare ti servirà di nuovo un codice di invito.")) return;
+    // il member doc che sparisce non è un kick
+    wasMemberRef.current = false;
+    try {
+      if (inVoice) await exitVoice();
+      await leaveRoom(roomId, user.uid);
+      window.location.href = "/";
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Errore uscendo dalla room.");
+    }
+  };
+
   return (
     <main style={shell}>
       {/* SIDEBAR */}
@@ -631,7 +1123,12 @@ export default function RoomPage() {
                     }}
                   >
                     <div style={{ fontWeight: 900 }}>{r.name ?? "Room"}</div>
-                    <div style={{ marginTop: 4 }}>
+                    <div style={{ marginTop: 4, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {(unreadCounts[r.id] ?? 0) > 0 && (
+                        <span className="ui-pill" style={{ background: "var(--primary-bg)", color: "var(--primary-text)" }}>
+                          {unreadCounts[r.id]} nuovi
+                        </span>
+                      )}
                       <span className="ui-pill">
                         {r.joinCode ? (
                           <>
@@ -654,6 +1151,10 @@ export default function RoomPage() {
             ← Home
           </button>
 
+          <button className="ui-btn" onClick={() => (window.location.href = "/Calendar")} style={{ marginTop: 10 }}>
+            📅 Il mio calendario
+          </button>
+
           <button className="ui-btn" onClick={toggleTheme} style={{ marginTop: 10 }}>
             {theme === "dark" ? "☀️ Tema chiaro" : "🌙 Tema scuro"}
           </button>
@@ -661,7 +1162,7 @@ export default function RoomPage() {
           <div className="ui-card" style={{ marginTop: 12 }}>
             <div style={{ fontWeight: 900 }}>Ruolo</div>
             <div style={{ marginTop: 8, color: "var(--muted)", fontSize: 13 }}>
-              <b>{isAdmin ? "ADMIN" : "MEMBER"}</b>
+              <b>{myRole === "none" ? "—" : ROLE_LABEL[myRole]}</b>
               <br />
               Chat: <b>{effectiveCanChat ? "OK" : "NO"}</b> • Vocale: <b>{effectiveCanCall ? "OK" : "NO"}</b>
             </div>
@@ -691,23 +1192,59 @@ export default function RoomPage() {
           </div>
         </div>
 
+        {!online && (
+          <div className="ui-card" style={{ marginTop: 12, borderColor: "var(--primary-bg)" }}>
+            <div style={{ fontWeight: 900 }}>📴 Sei offline</div>
+            <div style={{ marginTop: 4, color: "var(--muted)", fontSize: 13 }}>
+              Vedi gli ultimi messaggi e il calendario salvati sul dispositivo. I messaggi che scrivi restano in coda
+              (⏳) e partono appena torna la rete. Vocale e allegati non sono disponibili.
+            </div>
+          </div>
+        )}
+
         {/* ROOM HEADER */}
         <div className="ui-card" style={{ marginTop: 12 }}>
           <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
             <div>
               <div style={{ fontSize: 22, fontWeight: 900 }}>{room?.name ?? "Room"}</div>
               <div style={{ marginTop: 4, color: "var(--muted)" }}>{status}</div>
+              {joined && onlineUids.size > 0 && (
+                <div style={{ marginTop: 6 }}>
+                  <span className="ui-pill">🟢 {onlineUids.size} online</span>
+                </div>
+              )}
             </div>
 
             <div style={{ textAlign: "right" }}>
               <div style={{ fontSize: 12, color: "var(--muted)" }}>Codice invito</div>
-              <div style={{ fontWeight: 900 }}>{room?.joinCode ?? "—"}</div>
+              <div style={{ fontWeight: 900 }}>
+                {room?.archived ? "archiviata" : room?.joinDisabled ? "ingressi chiusi" : (room?.joinCode ?? "—")}
+              </div>
+              {access === "member" && !isOwner && !removed && (
+                <button className="ui-btn" onClick={leave} style={{ marginTop: 8 }}>
+                  Esci dalla room
+                </button>
+              )}
             </div>
           </div>
+
+          {room?.archived && (
+            <div style={{ ...settingRow, marginTop: 12 }}>
+              <div>
+                <div style={{ fontWeight: 900 }}>📦 Room archiviata: sola lettura</div>
+                <div style={{ fontSize: 12, color: "var(--muted)" }}>Chat, vocale e calendario sono fermi.</div>
+              </div>
+              {isOwner && (
+                <button className="ui-btn" onClick={toggleArchived}>
+                  Riapri
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* ROOM SETTINGS */}
-        {isAdmin && (
+        {isModerator && (
           <div className="ui-card" style={{ marginTop: 16 }}>
             <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
               <div style={{ fontWeight: 900 }}>Impostazioni Room</div>
@@ -719,41 +1256,101 @@ export default function RoomPage() {
               </div>
             </div>
 
-            {settingsOpen && (
+            {settingsOpen && room?.archived && (
+              <div style={{ marginTop: 12, color: "var(--muted)", fontSize: 13 }}>
+                Le impostazioni sono ferme finché la room è archiviata.
+              </div>
+            )}
+
+            {settingsOpen && !room?.archived && (
               <div style={{ marginTop: 12, display: "grid", gap: 12 }}>
+                {isAdmin && (
+                  <>
+                    <div style={settingRow}>
+                      <div>
+                        <div style={{ fontWeight: 900 }}>Default chat per nuovi membri</div>
+                      </div>
+                      <button className="ui-btn" onClick={() => updateRoomSetting({ defaultCanChat: !(room?.defaultCanChat ?? true) })}>
+                        {room?.defaultCanChat ?? true ? "ON" : "OFF"}
+                      </button>
+                    </div>
+
+                    <div style={settingRow}>
+                      <div>
+                        <div style={{ fontWeight: 900 }}>Default vocale per nuovi membri</div>
+                      </div>
+                      <button className="ui-btn" onClick={() => updateRoomSetting({ defaultCanCall: !(room?.defaultCanCall ?? true) })}>
+                        {room?.defaultCanCall ?? true ? "ON" : "OFF"}
+                      </button>
+                    </div>
+
+                    <div style={settingRow}>
+                      <div>
+                        <div style={{ fontWeight: 900 }}>Approvazione nuovi membri</div>
+                        <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                          Chi entra col codice aspetta che un admin lo approvi
+                        </div>
+                      </div>
+                      <button className="ui-btn" onClick={() => updateRoomSetting({ requireApproval: !(room?.requireApproval ?? false) })}>
+                        {room?.requireApproval ?? false ? "ON" : "OFF"}
+                      </button>
+                    </div>
+
+                    <div style={{ borderTop: "2px solid var(--border)", paddingTop: 12 }}>
+                      <RoomInvites
+                        roomId={roomId}
+                        mainCode={room?.joinCode}
+                        joinDisabled={room?.joinDisabled ?? false}
+                        onToggleJoin={() => updateRoomSetting({ joinDisabled: !(room?.joinDisabled ?? false) })}
+                      />
+                    </div>
+                  </>
+                )}
+
                 <div style={settingRow}>
                   <div>
-                    <div style={{ fontWeight: 900 }}>Default chat per nuovi membri</div>
+                    <div style={{ fontWeight: 900 }}>Blocca chat per tutti</div>
                   </div>
-                  <button className="ui-btn" onClick={() => updateRoomSetting({ defaultCanChat: !(room?.defaultCanChat ?? true) })}>
-                    {room?.defaultCanChat ?? true ? "ON" : "OFF"}
+                  <button className="ui-btn" onClick={() => updateRoomSetting({ lockChat: !(room?.lockChat ?? false) })}>
+                    {room?.lockChat ?? false ? "ON" : "OFF"}
                   </button>
                 </div>
 
                 <div style={settingRow}>
                   <div>
-                    <div style={{ fontWeight: 900 }}>Default vocale per nuovi membri</div>
+                    <div style={{ fontWeight: 900 }}>Blocca vocale per tutti</div>
                   </div>
-                  <button className="ui-btn" onClick={() => updateRoomSetting({ defaultCanCall: !(room?.defaultCanCall ?? true) })}>
-                    {room?.defaultCanCall ?? true ? "ON" : "OFF"}
+                  <button className="ui-btn" onClick={() => updateRoomSetting({ lockCalls: !(room?.lockCalls ?? false) })}>
+                    {room?.lockCalls ?? false ? "ON" : "OFF"}
                   </button>
                 </div>
+              </div>
+            )}
 
+            {/* solo owner: archiviazione ed eliminazione */}
+            {settingsOpen && isOwner && (
+              <div style={{ marginTop: 12, borderTop: "2px solid var(--border)", paddingTop: 12, display: "grid", gap: 12 }}>
                 <div style={settingRow}>
                   <div>
-                    <div style={{ fontWeight: 900 }}>Blocca chat per tutti</div>
+                    <div style={{ fontWeight: 900 }}>{room?.archived ? "Riapri la room" : "Archivia la room"}</div>
+                    <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                      Sola lettura per tutti: niente messaggi, vocale o modifiche al calendario
+                    </div>
                   </div>
-                  <button className="ui-btn" onClick={() => updateRoomSetting({ lockChat: !(room?.lockChat ?? false) })}>
-                    {room?.lockChat ?? false ? "ON" : "OFF"}
+                  <button className="ui-btn" onClick={toggleArchived}>
+                    {room?.archived ? "Riapri" : "Archivia"}
                   </button>
                 </div>
 
                 <div style={settingRow}>
                   <div>
-                    <div style={{ fontWeight: 900 }}>Blocca vocale per tutti</div>
+                    <div style={{ fontWeight: 900 }}>Elimina definitivamente</div>
+                    <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                      Messaggi, calendario, inviti e allegati spariscono per tutti
+                    </div>
                   </div>
-                  <button className="ui-btn" onClick={() => updateRoomSetting({ lockCalls: !(room?.lockCalls ?? false) })}>
-                    {room?.lockCalls ?? false ? "ON" : "OFF"}
+                  <button className="ui-btn" onClick={deleteForever} style={{ borderColor: "#dc2626", color: "#dc2626" }}>
+                    Elimina
                   </button>
                 </div>
               </div>
@@ -761,112 +1358,587 @@ export default function RoomPage() {
           </div>
         )}
 
-        {/* ✅ VOICE ROOM PANEL */}
-        <div className="ui-card" style={{ marginTop: 16 }}>
-          <div style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
-            <div>
-              <div style={{ fontWeight: 900, fontSize: 18 }}>Vocale della Room</div>
-              <div style={{ marginTop: 6, color: "var(--muted)" }}>
-                {voiceStatus} {voiceCallId ? "• (attivo)" : "• (spento)"}
-              </div>
+        {/* NOTIFICHE (ogni membro le sue) */}
+        {access === "member" && user && !removed && <RoomNotifications roomId={roomId} uid={user.uid} />}
+
+        {/* RICHIESTE DI INGRESSO (admin) */}
+        {isAdmin && joinRequests.length > 0 && (
+          <div className="ui-card" style={{ marginTop: 16 }}>
+            <div style={{ fontWeight: 900 }}>Richieste di ingresso ({joinRequests.length})</div>
+            <div style={{ marginTop: 12, display: "grid", gap: 8 }}>
+              {joinRequests.map((r) => (
+                <div key={r.uid} style={settingRow}>
+                  <div>
+                    <div style={{ fontWeight: 900 }}>{r.name}</div>
+                    <div style={{ marginTop: 4, color: "var(--muted)", fontSize: 13 }}>
+                      {formatTs(r.requestedAt)}
+                      {r.inviteLabel && ` • invito: ${r.inviteLabel}`}
+                    </div>
+                  </div>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button className="ui-btn-primary" onClick={() => approveRequest(r)}>
+                      Approva
+                    </button>
+                    <button className="ui-btn" onClick={() => rejectRequest(r)}>
+                      Rifiuta
+                    </button>
+                  </div>
+                </div>
+              ))}
             </div>
+          </div>
+        )}
 
-            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-              <button className="ui-btn-primary" onClick={enterVoice} disabled={!user || !effectiveCanCall || inVoice}>
-                Entra in vocale
-              </button>
-              <button className="ui-btn" onClick={exitVoice} disabled={!user || !inVoice}>
-                Esci
+        {/* MEMBERS (moderatori in su) */}
+        {isModerator && room && (
+          <div className="ui-card" style={{ marginTop: 16 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+              <div style={{ fontWeight: 900 }}>Membri ({members.length})</div>
+              <button className="ui-btn" onClick={() => setMembersOpen((v) => !v)}>
+                {membersOpen ? "Chiudi" : "Apri"}
               </button>
-
-              {isAdmin && (
-                <button className="ui-btn" onClick={closeVoiceForAll}>
-                  Chiudi vocale (tutti)
-                </button>
-              )}
             </div>
+
+            {membersOpen && (
+              <div style={{ marginTop: 12, display: "grid", gap: 12 }}>
+                {members.map((m) => {
+                  const canChat = memberCanChat(room, m);
+                  const canCall = memberCanCall(room, m);
+                  const isMe = m.uid === user?.uid;
+                  return (
+                    <div key={m.uid} style={settingRow}>
+                      <div>
+                        <div style={{ fontWeight: 900 }}>
+                          <span title={onlineUids.has(m.uid) ? "online" : "offline"}>
+                            {onlineUids.has(m.uid) ? "🟢" : "⚪"}
+                          </span>{" "}
+                          {m.name} {isMe && <span style={{ color: "var(--muted)" }}>(tu)</span>}
+                        </div>
+                        <div style={{ marginTop: 4, color: "var(--muted)", fontSize: 13 }}>
+                          <b>{ROLE_LABEL[m.role] ?? "MEMBER"}</b> • entrato: {formatTs(m.joinedAt)}
+                          <br />
+                          Chat: <b>{canChat ? "OK" : "NO"}</b> • Vocale: <b>{canCall ? "OK" : "NO"}</b>
+                        </div>
+                      </div>
+
+                      {outranks(m) && (
+                        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", justifyContent: "flex-end" }}>
+                          {isOwner && (
+                            <>
+                              <select
+                                className="ui-input"
+                                style={{ width: "auto" }}
+                                value={m.role}
+                                onChange={(e) => setMemberRole(m, e.target.value as Exclude<Role, "owner">)}
+                                title="Ruolo"
+                              >
+                                <option value="admin">Admin</option>
+                                <option value="moderator">Moderatore</option>
+                                <option value="member">Membro</option>
+                              </select>
+                              <button className="ui-btn" onClick={() => transferOwnership(m)}>
+                                Rendi owner
+                              </button>
+                            </>
+                          )}
+                          <button
+                            className="ui-btn"
+                            onClick={() => updateMemberOverride(m, { canChat: !(m.canChat ?? room.defaultCanChat ?? true) })}
+                            title="Override chat"
+                          >
+                            💬 {m.canChat ?? room.defaultCanChat ?? true ? "ON" : "OFF"}
+                          </button>
+                          <button
+                            className="ui-btn"
+                            onClick={() => updateMemberOverride(m, { canCall: !(m.canCall ?? room.defaultCanCall ?? true) })}
+                            title="Override vocale"
+                          >
+                            🎙 {m.canCall ?? room.defaultCanCall ?? true ? "ON" : "OFF"}
+                          </button>
+                          <button className="ui-btn" onClick={() => kickMember(m)}>
+                            Rimuovi
+                          </button>
+                          {isAdmin && (
+                            <button className="ui-btn" onClick={() => banMember(m)}>
+                              Banna
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {isAdmin && (
+                  <div style={{ borderTop: "2px solid var(--border)", paddingTop: 12 }}>
+                    <div style={{ fontWeight: 900 }}>Bannati</div>
+                    <div style={{ marginTop: 8, display: "grid", gap: 8 }}>
+                      {bans.length === 0 ? (
+                        <span style={{ color: "var(--muted)", fontSize: 13 }}>Nessun utente bannato.</span>
+                      ) : (
+                        bans.map((b) => (
+                          <div key={b.uid} style={settingRow}>
+                            <div>
+                              <div style={{ fontWeight: 900 }}>{b.name}</div>
+                              <div style={{ marginTop: 4, color: "var(--muted)", fontSize: 13 }}>
+                                bannato: {formatTs(b.bannedAt)}
+                              </div>
+                            </div>
+                            <button className="ui-btn" onClick={() => unbanMember(b)}>
+                              Togli ban
+                            </button>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
+        )}
 
-          {!effectiveCanCall && (
-            <div style={{ marginTop: 10, color: "var(--muted)" }}>
-              ⚠️ In questa room non hai permesso per il vocale.
+        {removed && (
+          <div className="ui-card" style={{ marginTop: 16 }}>
+            <div style={{ fontWeight: 900 }}>
+              {removed === "banned" ? "⛔ Sei stato bannato da questa room." : "Sei stato rimosso dalla room."}
             </div>
-          )}
+            {removed === "kicked" && (
+              <div style={{ marginTop: 6, color: "var(--muted)" }}>Ricarica la pagina per rientrare.</div>
+            )}
+          </div>
+        )}
 
-          <div style={{ marginTop: 12, borderTop: "2px solid var(--border)", paddingTop: 12 }}>
-            <div style={{ fontWeight: 900 }}>In vocale adesso</div>
-            <div style={{ marginTop: 8, display: "flex", gap: 8, flexWrap: "wrap" }}>
-              {voiceMembers.length === 0 ? (
-                <span className="ui-pill">nessuno</span>
-              ) : (
-                voiceMembers.map((m) => (
-                  <span key={m.uid} className="ui-pill">
-                    {m.name}
-                  </span>
-                ))
-              )}
+        {(access === "pending" || access === "rejected") && !removed && (
+          <div className="ui-card" style={{ marginTop: 16 }}>
+            <div style={{ fontWeight: 900, fontSize: 18 }}>
+              {access === "pending" ? "⏳ In attesa di approvazione" : "La tua richiesta non è stata accettata."}
+            </div>
+            <div style={{ marginTop: 6, color: "var(--muted)" }}>
+              {access === "pending"
+                ? "Un capo della room deve approvare il tuo ingresso. Questa pagina si aggiorna da sola."
+                : "Se pensi sia un errore, contatta i capi della room."}
             </div>
           </div>
+        )}
 
-          <audio ref={remoteAudioRef} autoPlay />
-        </div>
+        {/* ✅ VOICE ROOM PANEL */}
+        {!removed && access !== "pending" && access !== "rejected" && (
+          <>
+          <div className="ui-card" style={{ marginTop: 16 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+              <div>
+                <div style={{ fontWeight: 900, fontSize: 18 }}>Vocale della Room</div>
+                <div style={{ marginTop: 6, color: "var(--muted)" }}>
+                  {voiceStatus} {voiceCallId ? "• (attivo)" : "• (spento)"}
+                </div>
+                {inVoice && (
+                  <div style={{ marginTop: 4, color: "var(--muted)", fontSize: 13 }}>
+                    {connectionSummary(
+                      voiceMembers.filter((m) => m.uid !== user?.uid).map((m) => ({ name: m.name, state: peerStates[m.uid] })),
+                      roomIce
+                    )}
+                  </div>
+                )}
+              </div>
 
-        {/* CHAT */}
-        <div className="ui-card" style={{ marginTop: 16 }}>
-          <h2 style={{ fontWeight: 900 }}>Chat</h2>
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <button className="ui-btn-primary" onClick={enterVoice} disabled={!user || !effectiveCanCall || inVoice || !online}>
+                  Entra in vocale
+                </button>
+                <button className="ui-btn" onClick={exitVoice} disabled={!user || !inVoice}>
+                  Esci
+                </button>
 
-          {!effectiveCanChat && (
-            <div style={{ marginTop: 10, color: "var(--muted)" }}>
-              ⚠️ In questa room non hai permesso per scrivere in chat.
+                {inVoice && (
+                  <button
+                    className={muted || forceMuted ? "ui-btn-primary" : "ui-btn"}
+                    onClick={toggleMute}
+                    disabled={forceMuted}
+                    title={forceMuted ? "Solo un moderatore può riattivarti" : undefined}
+                  >
+                    {forceMuted ? "🔇 Silenziato da un moderatore" : muted ? "🎙 Riattiva microfono" : "🔇 Muto"}
+                  </button>
+                )}
+
+                {inVoice && (
+                  <button className={localVideo.camera ? "ui-btn-primary" : "ui-btn"} onClick={toggleCamera}>
+                    {localVideo.camera ? "📷 Spegni camera" : "📷 Camera"}
+                  </button>
+                )}
+                {inVoice && typeof navigator.mediaDevices?.getDisplayMedia === "function" && (
+                  <button className={localVideo.screen ? "ui-btn-primary" : "ui-btn"} onClick={toggleScreen}>
+                    {localVideo.screen ? "🖥 Interrompi condivisione" : "🖥 Condividi schermo"}
+                  </button>
+                )}
+
+                {isModerator && (
+                  <button className="ui-btn" onClick={closeVoiceForAll}>
+                    Chiudi vocale (tutti)
+                  </button>
+                )}
+              </div>
             </div>
-          )}
 
-          <div
-            style={{
-              marginTop: 10,
-              border: "2px solid var(--border)",
-              borderRadius: 12,
-              padding: 12,
-              height: 320,
-              overflow: "auto",
-              background: "transparent",
-            }}
-          >
-            {messages.length === 0 ? (
-              <div style={{ color: "var(--muted)" }}>Nessun messaggio. Scrivi il primo 👇</div>
-            ) : (
-              messages.map((m) => (
-                <div key={m.id} style={{ marginBottom: 10 }}>
-                  <div style={{ fontSize: 12, color: "var(--muted)" }}>
-                    <b style={{ color: "var(--text)" }}>{m.name}</b>
-                  </div>
-                  <div style={{ fontSize: 15 }}>{m.text}</div>
-                </div>
-              ))
+            {!effectiveCanCall && (
+              <div style={{ marginTop: 10, color: "var(--muted)" }}>
+                ⚠️ In questa room non hai permesso per il vocale.
+              </div>
+            )}
+
+            {!inVoice && effectiveCanCall && user && (
+              <div style={{ marginTop: 12 }}>
+                <VoiceCheck roomId={roomId} micId={audioChoice.micId} onMicChange={switchMic} />
+              </div>
             )}
+
+            {inVoice && (
+              <div style={{ marginTop: 12, display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <label style={deviceField}>
+                  🎙 Microfono
+                  <select
+                    className="ui-input"
+                    value={micTrack?.getSettings().deviceId ?? audioChoice.micId ?? ""}
+                    onChange={(e) => switchMic(e.target.value)}
+                  >
+                    {audioDevices.inputs.map((d, i) => (
+                      <option key={d.deviceId} value={d.deviceId}>
+                        {d.label || `Microfono ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {canPickOutput() && audioDevices.outputs.length > 0 && (
+                  <label style={deviceField}>
+                    🔈 Uscita
+                    <select
+                      className="ui-input"
+                      value={audioChoice.speakerId ?? ""}
+                      onChange={(e) => switchSpeaker(e.target.value)}
+                    >
+                      <option value="">Predefinita</option>
+                      {audioDevices.outputs
+                        .filter((d) => d.deviceId !== "default")
+                        .map((d, i) => (
+                          <option key={d.deviceId} value={d.deviceId}>
+                            {d.label || `Uscita ${i + 1}`}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+            )}
+
+            <div style={{ marginTop: 12, borderTop: "2px solid var(--border)", paddingTop: 12 }}>
+              <div style={{ fontWeight: 900 }}>In vocale adesso</div>
+              <div style={{ marginTop: 8, display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {voiceMembers.length === 0 ? (
+                  <span className="ui-pill">nessuno</span>
+                ) : (
+                  voiceMembers.map((m) => (
+                    <span key={m.uid} className="ui-pill" style={isSpeaking(m) ? speakingPill : undefined}>
+                      {m.name}
+                      {m.forceMuted ? " 🔇 (moderatore)" : m.muted ? " 🔇" : ""}
+                      {inVoice && m.uid !== user?.uid && peerBadge(peerStates[m.uid])}
+                      {canManageVoice(m) && (
+                        <>
+                          {" "}
+                          <button
+                            className="ui-btn"
+                            style={msgAction}
+                            onClick={() => toggleForceMute(m)}
+                            title={m.forceMuted ? "Riattiva il microfono" : "Silenzia"}
+                          >
+                            {m.forceMuted ? "🔊" : "🔇"}
+                          </button>{" "}
+                          <button className="ui-btn" style={msgAction} onClick={() => kickFromVoice(m)} title="Togli dal vocale (e il permesso di chiamare)">
+                            ✕
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {inVoice && user && (
+              <CallGrid
+                members={voiceMembers}
+                myUid={user.uid}
+                local={localVideo}
+                remote={remoteMedia}
+                peerStates={peerStates}
+                speaking={speakingUids}
+              />
+            )}
+
+            {Object.entries(remoteMedia).map(([uid, media]) => (
+              <RemoteAudio
+                key={uid}
+                stream={media.audio}
+                sinkId={audioChoice.speakerId}
+                muted={voiceMembers.some((m) => m.uid === uid && m.forceMuted)}
+              />
+            ))}
           </div>
 
-          <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
-            <input
-              className="ui-input"
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder={effectiveCanChat ? "Scrivi un messaggio…" : "Non hai permessi"}
-              disabled={!effectiveCanChat}
-              onKeyDown={(e) => {
-                if (e.key === "Enter") send();
-              }}
-            />
-            <button className="ui-btn-primary" onClick={send} disabled={!effectiveCanChat}>
-              Invia
+          {/* TABS */}
+          <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+            <button
+              className={tab === "chat" ? "ui-btn-primary" : "ui-btn"}
+              onClick={() => setTab("chat")}
+            >
+              💬 Chat
+            </button>
+            <button
+              className={tab === "calendar" ? "ui-btn-primary" : "ui-btn"}
+              onClick={() => setTab("calendar")}
+            >
+              📅 Calendario
             </button>
           </div>
-        </div>
+
+          {tab === "calendar" ? (
+            joined && (
+              <RoomEvents
+                roomId={roomId}
+                roomName={room?.name ?? "Room"}
+                user={user ? { uid: user.uid, name: user.displayName ?? "utente" } : null}
+                canManage={isAdmin && !room?.archived}
+                readOnly={room?.archived}
+              />
+            )
+          ) : (
+            /* CHAT */
+            <div className="ui-card" style={{ marginTop: 16 }}>
+              <h2 style={{ fontWeight: 900 }}>Chat</h2>
+
+              {!effectiveCanChat && (
+                <div style={{ marginTop: 10, color: "var(--muted)" }}>
+                  {room?.archived
+                    ? "📦 La room è archiviata: la chat è di sola lettura."
+                    : "⚠️ In questa room non hai permesso per scrivere in chat."}
+                </div>
+              )}
+
+              <div
+                ref={chatBoxRef}
+                onScroll={onChatScroll}
+                style={{
+                  marginTop: 10,
+                  border: "2px solid var(--border)",
+                  borderRadius: 12,
+                  padding: 12,
+                  height: 320,
+                  overflow: "auto",
+                  background: "transparent",
+                }}
+              >
+                {(hasOlder || loadingOlder) && (
+                  <div style={{ textAlign: "center", marginBottom: 10 }}>
+                    <button className="ui-btn" style={msgAction} onClick={loadOlder} disabled={loadingOlder}>
+                      {loadingOlder ? "Carico…" : "Messaggi precedenti"}
+                    </button>
+                  </div>
+                )}
+
+                {messages.length === 0 ? (
+                  <div style={{ color: "var(--muted)" }}>Nessun messaggio. Scrivi il primo 👇</div>
+                ) : (
+                  messages.map((m, i) => {
+                    const mine = m.uid === user?.uid;
+                    const canEdit = mine && effectiveCanChat && !m.deleted && !m.eventId;
+                    const canDelete = !m.deleted && (mine || isModerator);
+                    const prev = messages[i - 1];
+                    const newDay =
+                      m.createdAt && (!prev?.createdAt || dayKey(prev.createdAt) !== dayKey(m.createdAt));
+                    return (
+                      <Fragment key={m.id}>
+                        {newDay && m.createdAt && (
+                          <div style={chatDivider}>
+                            <span className="ui-pill">{formatDay(m.createdAt)}</span>
+                          </div>
+                        )}
+                        {m.id === firstUnreadId && (
+                          <div style={{ ...chatDivider, color: "var(--primary-bg)", fontWeight: 900, fontSize: 12 }}>
+                            — Nuovi messaggi —
+                          </div>
+                        )}
+                        <div style={{ marginBottom: 10 }}>
+                          <div style={{ fontSize: 12, color: "var(--muted)", display: "flex", gap: 8, alignItems: "center" }}>
+                            <b style={{ color: "var(--text)" }}>{m.name}</b>
+                            {m.createdAt && <span>{formatTime(m.createdAt)}</span>}
+                            {m.editedAt && !m.deleted && <span>(modificato)</span>}
+                            {m.pending && <span title="Parte appena torna la rete">⏳ in invio</span>}
+                            {canEdit && editingId !== m.id && (
+                              <button className="ui-btn" style={msgAction} onClick={() => startEdit(m)}>
+                                Modifica
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button className="ui-btn" style={msgAction} onClick={() => removeMessage(m)}>
+                                Elimina
+                              </button>
+                            )}
+                          </div>
+
+                          {m.deleted ? (
+                            <div style={{ fontSize: 15, color: "var(--muted)", fontStyle: "italic" }}>
+                              🗑 Messaggio eliminato{m.deletedByUid && m.deletedByUid !== m.uid ? " da un moderatore" : ""}
+                            </div>
+                          ) : editingId === m.id ? (
+                            <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+                              <input
+                                className="ui-input"
+                                value={editText}
+                                onChange={(e) => setEditText(e.target.value)}
+                                autoFocus
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") saveEdit();
+                                  if (e.key === "Escape") setEditingId(null);
+                                }}
+                              />
+                              <button className="ui-btn-primary" onClick={saveEdit}>
+                                Salva
+                              </button>
+                              <button className="ui-btn" onClick={() => setEditingId(null)}>
+                                Annulla
+                              </button>
+                            </div>
+                          ) : (
+                            <>
+                              {m.eventId ? (
+                                <button
+                                  className="ui-btn"
+                                  style={{ marginTop: 4, textAlign: "left", fontWeight: 700 }}
+                                  onClick={() => setTab("calendar")}
+                                  title="Apri il calendario"
+                                >
+                                  {m.text}
+                                </button>
+                              ) : (
+                                m.text && <div style={{ fontSize: 15 }}>{m.text}</div>
+                              )}
+                              {m.attachment && <AttachmentView attachment={m.attachment} />}
+                            </>
+                          )}
+                        </div>
+                      </Fragment>
+                    );
+                  })
+                )}
+              </div>
+
+              {(uploadPct !== null || uploadError) && (
+                <div style={{ marginTop: 10, color: "var(--muted)", fontSize: 13 }}>
+                  {uploadPct !== null ? `Carico allegato… ${uploadPct}%` : `⚠️ ${uploadError}`}
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*,application/pdf,.txt,.doc,.docx,.xls,.xlsx"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    e.target.value = "";
+                    if (f) sendFile(f);
+                  }}
+                />
+                <button
+                  className="ui-btn"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!effectiveCanChat || uploadPct !== null}
+                  title="Allega file (max 10 MB)"
+                >
+                  📎
+                </button>
+                <input
+                  className="ui-input"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  placeholder={effectiveCanChat ? "Scrivi un messaggio…" : "Non hai permessi"}
+                  disabled={!effectiveCanChat}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") send();
+                  }}
+                />
+                <button className="ui-btn-primary" onClick={send} disabled={!effectiveCanChat}>
+                  Invia
+                </button>
+              </div>
+            </div>
+          )}
+          </>
+        )}
       </section>
     </main>
   );
 }
 
+function AttachmentView({ attachment }: { attachment: Attachment }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    attachmentUrl(attachment.path)
+      .then((u) => alive && setUrl(u))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [attachment.path]);
+
+  if (isImageAttachment(attachment) && url) {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" style={{ display: "inline-block", marginTop: 6 }}>
+        {/* URL firmati di Storage: niente ottimizzazione next/image */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={url}
+          alt={attachment.name}
+          style={{ maxWidth: 260, maxHeight: 200, borderRadius: 10, border: "2px solid var(--border)" }}
+        />
+      </a>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <a className="ui-pill" href={url ?? undefined} target="_blank" rel="noreferrer">
+        📎 {attachment.name} • {formatBytes(attachment.size)}
+      </a>
+    </div>
+  );
+}
+
+function peerBadge(state: PeerState | undefined) {
+  if (state === "connected") return " ✅";
+  if (state === "failed") return " ⚠️";
+  if (state === "restarting" || state === "disconnected") return " 🔄";
+  return " …";
+}
+
+// muted: silenziato da un moderatore (non ci si fida solo del suo client)
+function RemoteAudio({ stream, sinkId, muted }: { stream: MediaStream; sinkId: string | null; muted: boolean }) {
+  const ref = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.srcObject = stream;
+  }, [stream]);
+
+  // "" = uscita predefinita; un dispositivo scollegato lascia quella di prima
+  useEffect(() => {
+    if (ref.current && canPickOutput()) ref.current.setSinkId(sinkId ?? "").catch(() => {});
+  }, [sinkId]);
+
+  return <audio ref={ref} autoPlay muted={muted} />;
+}
+
 const shell: React.CSSProperties = {
   display: "flex",
   gap: 12,
@@ -901,6 +1973,31 @@ const topBar: React.CSSProperties = {
   alignItems: "center",
 };
 
+const chatDivider: React.CSSProperties = {
+  textAlign: "center",
+  margin: "10px 0",
+};
+
+const msgAction: React.CSSProperties = {
+  padding: "2px 8px",
+  fontSize: 11,
+  borderRadius: 8,
+};
+
+const deviceField: React.CSSProperties = {
+  display: "grid",
+  gap: 4,
+  flex: "1 1 220px",
+  fontSize: 12,
+  fontWeight: 700,
+  color: "var(--muted)",
+};
+
+const speakingPill: React.CSSProperties = {
+  borderColor: "#22c55e",
+  boxShadow: "0 0 0 2px rgba(34, 197, 94, 0.35)",
+};
+
 const settingRow: React.CSSProperties = {
   border: "2px solid var(--border)",
   borderRadius: 12,
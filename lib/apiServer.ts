@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { adminAuth, adminDb } from "./firebaseAdmin";
+
+// Helper comuni dei route handler (app/api): utente dal token, errori JSON, rate limit.
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(public retryAfter: number) {
+    super(429, "Troppi tentativi: riprova tra qualche minuto.");
+  }
+}
+
+export type ApiUser = { uid: string; name: string };
+
+// "Authorization: Bearer <ID token>" (vedi lib/roomsApi.ts)
+export async function requireUser(req: Request): Promise<ApiUser> {
+  const header = req.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) throw new ApiError(401, "Devi fare il login.");
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+    return { uid: decoded.uid, name: (decoded.name as string | undefined) ?? "utente" };
+  } catch {
+    throw new ApiError(401, "Sessione scaduta: rifai il login.");
+  }
+}
+
+export async function readJson(req: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" ? body : {};
+  } catch {
+    throw new ApiError(400, "Richiesta non valida.");
+  }
+}
+
+export function clientIp(req: Request) {
+  return (req.headers.get("x-forwarded-for") ?? "").split(",")[0].trim() || req.headers.get("x-real-ip") || "unknown";
+}
+
+export function apiError(err: unknown) {
+  if (err instanceof ApiError) {
+    const headers: Record<string, string> = {};
+    if (err instanceof RateLimitError) headers["Retry-After"] = String(err.retryAfter);
+    return NextResponse.json({ error: err.message }, { status: err.status, headers });
+  }
+  console.error(err);
+  return NextResponse.json({ error: "Errore del server." }, { status: 500 });
+}
+
+// Finestra fissa su Firestore (rateLimits/{chiave}): vale anche con più istanze del server.
+// Chiavi "azione:uid" (o "azione-ip:indirizzo")
+export async function rateLimit(key: string, max: number, windowMs: number) {
+  const ref = adminDb.collection("rateLimits").doc(key.replace(/[^\w.:-]/g, "_").slice(0, 200));
+  const retryAfter = await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const now = Date.now();
+    const resetAt = snap.get("resetAt")?.toMillis?.() ?? 0;
+
+    if (!snap.exists || resetAt <= now) {
+      tx.set(ref, { count: 1, resetAt: new Date(now + windowMs), updatedAt: FieldValue.serverTimestamp() });
+      return 0;
+    }
+    if ((snap.get("count") ?? 0) >= max) return Math.ceil((resetAt - now) / 1000);
+    tx.update(ref, { count: FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() });
+    return 0;
+  });
+  if (retryAfter > 0) throw new RateLimitError(retryAfter);
+}
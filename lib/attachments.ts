@@ -0,0 +1,88 @@
+"use client";
+
+import { deleteObject, getDownloadURL, ref, uploadBytesResumable } from "firebase/storage";
+import { storage } from "./firebase";
+
+// Allegati della chat: rooms/{roomId}/attachments/{uid}/{file} su Firebase Storage.
+// Limiti uguali in storage.rules.
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+// sul message doc salviamo solo il path: l'URL si chiede a Storage (le regole controllano la room)
+export type Attachment = {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+};
+
+export function isImageAttachment(a: Pick<Attachment, "type">) {
+  return a.type.startsWith("image/");
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// null se il file va bene, altrimenti il messaggio da mostrare
+export function validateAttachment(file: File) {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return "Tipo di file non supportato (immagini, PDF, documenti Office o testo).";
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `File troppo grande (max ${formatBytes(MAX_ATTACHMENT_BYTES)}).`;
+  }
+  return null;
+}
+
+export function uploadAttachment(
+  roomId: string,
+  uid: string,
+  file: File,
+  onProgress?: (pct: number) => void
+) {
+  const safeName = file.name.replace(/[^\w.\-]+/g, "_").slice(-80) || "file";
+  const path = `rooms/${roomId}/attachments/${uid}/${Date.now()}-${safeName}`;
+  const task = uploadBytesResumable(ref(storage, path), file, { contentType: file.type });
+
+  return new Promise<Attachment>((resolve, reject) => {
+    task.on(
+      "state_changed",
+      (snap) => onProgress?.(snap.totalBytes ? Math.round((snap.bytesTransferred / snap.totalBytes) * 100) : 0),
+      reject,
+      () => resolve({ path, name: file.name, type: file.type, size: file.size })
+    );
+  });
+}
+
+const urlCache = new Map<string, Promise<string>>();
+
+export function attachmentUrl(path: string) {
+  let p = urlCache.get(path);
+  if (!p) {
+    p = getDownloadURL(ref(storage, path));
+    p.catch(() => urlCache.delete(path));
+    urlCache.set(path, p);
+  }
+  return p;
+}
+
+export async function removeAttachment(path: string) {
+  urlCache.delete(path);
+  await deleteObject(ref(storage, path));
+}
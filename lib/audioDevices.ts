@@ -0,0 +1,49 @@
+"use client";
+
+// Microfono e uscita audio scelti per il vocale: restano salvati su questo dispositivo.
+// Le etichette dei dispositivi il browser le dà solo dopo il permesso al microfono.
+
+const STORAGE_KEY = "scouthub.audioDevices.v1";
+
+export type AudioDevices = { inputs: MediaDeviceInfo[]; outputs: MediaDeviceInfo[] };
+export type AudioChoice = { micId: string | null; speakerId: string | null };
+
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const all = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: all.filter((d) => d.kind === "audioinput" && d.deviceId),
+    outputs: all.filter((d) => d.kind === "audiooutput" && d.deviceId),
+  };
+}
+
+export function subscribeDeviceChange(onChange: () => void) {
+  navigator.mediaDevices.addEventListener("devicechange", onChange);
+  return () => navigator.mediaDevices.removeEventListener("devicechange", onChange);
+}
+
+// Safari e Firefox (in parte) non permettono di scegliere l'uscita
+export function canPickOutput() {
+  return typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+}
+
+export function savedAudioChoice(): AudioChoice {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      micId: typeof raw.micId === "string" ? raw.micId : null,
+      speakerId: typeof raw.speakerId === "string" ? raw.speakerId : null,
+    };
+  } catch {
+    return { micId: null, speakerId: null };
+  }
+}
+
+export function saveAudioChoice(patch: Partial<AudioChoice>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...savedAudioChoice(), ...patch }));
+}
+
+// exact: scelta esplicita (errore se non c'è); altrimenti il preferito se è ancora collegato
+export function micConstraints(micId: string | null, exact = false): MediaStreamConstraints {
+  if (!micId) return { audio: true, video: false };
+  return { audio: { deviceId: exact ? { exact: micId } : { ideal: micId } }, video: false };
+}
@@ -0,0 +1,146 @@
+// Date del calendario: giorni "locali" del browser, formattazione italiana.
+// Le settimane partono dal lunedì. In fondo l'ora "da orologio" in un fuso IANA (via Intl),
+// per chi non può contare sul fuso locale (export .ics, promemoria calcolati dal server).
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function localTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "Europe/Rome";
+  } catch {
+    return "Europe/Rome";
+  }
+}
+
+export function startOfDay(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+export function addDays(d: Date, n: number) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n, d.getHours(), d.getMinutes());
+}
+
+export function addMonths(d: Date, n: number) {
+  return new Date(d.getFullYear(), d.getMonth() + n, 1);
+}
+
+export function startOfWeek(d: Date) {
+  const day = (d.getDay() + 6) % 7; // lunedì = 0
+  return addDays(startOfDay(d), -day);
+}
+
+export function startOfMonth(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), 1);
+}
+
+export function sameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+// [start, end) dell'evento tocca il giorno?
+export function overlapsDay(start: Date, end: Date, day: Date) {
+  const from = startOfDay(day).getTime();
+  const to = addDays(startOfDay(day), 1).getTime();
+  const endMs = Math.max(end.getTime(), start.getTime() + 1);
+  return start.getTime() < to && endMs > from;
+}
+
+// valori per <input type="date"> / <input type="datetime-local">
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function toDateInput(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function toDateTimeInput(d: Date) {
+  return `${toDateInput(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// "2026-10-19" o "2026-10-19T15:00" → Date locale (null se non valida)
+export function fromInput(value: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/.exec(value.trim());
+  if (!m) return null;
+  const d = new Date(+m[1], +m[2] - 1, +m[3], m[4] ? +m[4] : 0, m[5] ? +m[5] : 0);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+const fmtTime = new Intl.DateTimeFormat("it-IT", { hour: "2-digit", minute: "2-digit" });
+const fmtDayLong = new Intl.DateTimeFormat("it-IT", {
+  weekday: "long",
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+});
+const fmtDayShort = new Intl.DateTimeFormat("it-IT", { weekday: "short", day: "numeric", month: "short" });
+const fmtMonth = new Intl.DateTimeFormat("it-IT", { month: "long", year: "numeric" });
+
+export function formatTime(d: Date) {
+  return fmtTime.format(d);
+}
+
+export function formatDayLong(d: Date) {
+  return fmtDayLong.format(d);
+}
+
+export function formatDayShort(d: Date) {
+  return fmtDayShort.format(d);
+}
+
+export function formatMonth(d: Date) {
+  return fmtMonth.format(d);
+}
+
+export const WEEKDAYS_SHORT = ["lun", "mar", "mer", "gio", "ven", "sab", "dom"];
+
+// Intervallo leggibile. Per gli eventi "tutto il giorno" end è esclusivo (mezzanotte del giorno dopo).
+export function formatRange(start: Date, end: Date, allDay: boolean) {
+  if (allDay) {
+    const last = addDays(startOfDay(end), -1);
+    if (last.getTime() <= start.getTime() || sameDay(start, last)) return `${formatDayLong(start)} • tutto il giorno`;
+    return `${formatDayShort(start)} – ${formatDayLong(last)} • tutto il giorno`;
+  }
+  if (sameDay(start, end)) return `${formatDayLong(start)}, ${formatTime(start)}–${formatTime(end)}`;
+  return `${formatDayShort(start)} ${formatTime(start)} – ${formatDayShort(end)} ${formatTime(end)}`;
+}
+
+// -------- Fusi orari --------
+
+export type ZoneParts = { y: number; mo: number; d: number; h: number; mi: number; s: number };
+
+// ora "da orologio" di un istante in un fuso IANA
+export function partsInZone(date: Date, timeZone: string): ZoneParts {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const get = (type: string) => Number(fmt.formatToParts(date).find((p) => p.type === type)?.value ?? 0);
+  return { y: get("year"), mo: get("month"), d: get("day"), h: get("hour"), mi: get("minute"), s: get("second") };
+}
+
+export function utcOf(p: ZoneParts) {
+  return Date.UTC(p.y, p.mo - 1, p.d, p.h, p.mi, p.s);
+}
+
+// ora da orologio in un fuso → istante (due passaggi per i cambi d'ora)
+export function zonedToDate(p: ZoneParts, timeZone: string) {
+  const guess = utcOf(p);
+  const first = guess - (utcOf(partsInZone(new Date(guess), timeZone)) - guess);
+  return new Date(guess - (utcOf(partsInZone(new Date(first), timeZone)) - first));
+}
+
+export function validZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
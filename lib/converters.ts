@@ -0,0 +1,25 @@
+"use client";
+
+import {
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+} from "firebase/firestore";
+
+// Converter Firestore dei moduli in lib/: in lettura i doc diventano tipi dell'app (date come Date).
+// Le scritture restano esplicite nelle funzioni dei moduli (serverTimestamp, arrayUnion, deleteField...),
+// quindi toFirestore non trasforma nulla.
+export function readConverter<T>(
+  read: (d: QueryDocumentSnapshot, options?: SnapshotOptions) => T
+): FirestoreDataConverter<T, DocumentData> {
+  return {
+    toFirestore: (value) => value as DocumentData,
+    fromFirestore: read,
+  };
+}
+
+export function toDate(v: unknown): Date | null {
+  return v instanceof Timestamp ? v.toDate() : null;
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { addDays, formatDayShort, formatRange, fromInput, localTimeZone, startOfDay } from "./calendar";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { FREQ_LABEL, type Recurrence, type RecurrenceFreq } from "./recurrence";
+import { deleteEvent } from "./roomsApi";
+
+// Eventi del calendario: uno per room, in rooms/{roomId}/events
+// start/end sono Timestamp; per gli eventi "tutto il giorno" end è esclusivo (mezzanotte del giorno dopo).
+// Per ogni occorrenza (data YYYY-MM-DD): rsvps/{occorrenza}_{uid} e attendance/{occorrenza}.
+// Modifiche e annullamenti finiscono in history/ e come messaggio nella chat della room.
+
+export type ScoutEvent = {
+  id: string;
+  roomId: string;
+  title: string;
+  description: string;
+  place: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone: string; // fuso di chi l'ha creato (IANA)
+  recurrence?: Recurrence | null;
+  occurrence?: string; // solo sulle occorrenze espanse (vedi lib/recurrence.ts)
+  cancelled: boolean; // resta visibile, barrato
+  updatedAt?: unknown;
+  createdAt?: unknown;
+  createdBy?: string;
+  createdByName?: string;
+};
+
+export type NewScoutEvent = Pick<
+  ScoutEvent,
+  "title" | "description" | "place" | "start" | "end" | "allDay"
+> & { repeat?: { freq: RecurrenceFreq; until: Date | null; exceptions?: string[] } | null; cancelled?: boolean };
+
+export type EventChange = {
+  id: string;
+  action: "edit" | "cancel" | "restore";
+  summary: string;
+  byUid: string;
+  byName: string;
+  at: Date | null;
+};
+
+export type RsvpStatus = "yes" | "maybe" | "no";
+
+export type Rsvp = {
+  uid: string;
+  name: string;
+  occurrence: string;
+  status: RsvpStatus;
+  note?: string;
+  updatedAt?: unknown;
+};
+
+export type Attendance = {
+  present: string[];
+  markedByUid?: string;
+  markedAt?: unknown;
+};
+
+function toRecurrence(v: unknown): Recurrence | null {
+  if (!v || typeof v !== "object") return null;
+  const r = v as { freq?: string; until?: unknown; exceptions?: unknown };
+  if (r.freq !== "weekly" && r.freq !== "biweekly" && r.freq !== "monthly") return null;
+  return {
+    freq: r.freq,
+    until: toDate(r.until),
+    exceptions: Array.isArray(r.exceptions) ? r.exceptions.filter((x) => typeof x === "string") : [],
+  };
+}
+
+const eventConverter = readConverter<ScoutEvent>((d) => {
+  const data = d.data();
+  // rooms/{roomId}/events/{eventId}
+  const roomId = d.ref.parent.parent?.id ?? "";
+  // eventi vecchi: solo "date" come stringa datetime-local
+  const legacy = typeof data.date === "string" ? fromInput(data.date.slice(0, 16)) : null;
+  const start = toDate(data.start) ?? legacy ?? new Date(0);
+  const end = toDate(data.end) ?? new Date(start.getTime() + 60 * 60 * 1000);
+  return {
+    id: d.id,
+    roomId,
+    title: data.title || "",
+    place: data.place || "",
+    description: data.description || "",
+    start,
+    end,
+    allDay: data.allDay === true,
+    timeZone: data.timeZone || localTimeZone(),
+    recurrence: toRecurrence(data.recurrence),
+    cancelled: data.cancelled === true,
+    updatedAt: data.updatedAt,
+    createdAt: data.createdAt,
+    createdBy: data.createdBy,
+    createdByName: data.createdByName,
+  };
+});
+
+const changeConverter = readConverter<EventChange>((d) => {
+  const data = d.data({ serverTimestamps: "estimate" });
+  return {
+    id: d.id,
+    action: data.action,
+    summary: data.summary ?? "",
+    byUid: data.byUid,
+    byName: data.byName ?? "utente",
+    at: data.at instanceof Timestamp ? data.at.toDate() : null,
+  };
+});
+
+const rsvpConverter = readConverter<Rsvp>((d) => {
+  const data = d.data();
+  return {
+    uid: data.uid,
+    name: data.name ?? "utente",
+    occurrence: data.occurrence,
+    status: data.status,
+    note: data.note ?? "",
+    updatedAt: data.updatedAt,
+  };
+});
+
+const attendanceConverter = readConverter<Attendance>((d) => {
+  const data = d.data();
+  return {
+    present: Array.isArray(data.present) ? data.present : [],
+    markedByUid: data.markedByUid,
+    markedAt: data.markedAt,
+  };
+});
+
+export function sortEvents(list: ScoutEvent[]) {
+  return [...list].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// se non c'è un orario: tutto il giorno da start a end (inclusi)
+export function normalizeRange(ev: Pick<NewScoutEvent, "start" | "end" | "allDay">) {
+  if (!ev.allDay) return { start: ev.start, end: ev.end };
+  const start = startOfDay(ev.start);
+  const end = addDays(startOfDay(ev.end < ev.start ? ev.start : ev.end), 1);
+  return { start, end };
+}
+
+export function subscribeRoomEvents(
+  roomId: string,
+  onEvents: (list: ScoutEvent[]) => void,
+  onError?: (err: Error) => void
+) {
+  return onSnapshot(
+    collection(db, "rooms", roomId, "events").withConverter(eventConverter),
+    (snap) => onEvents(sortEvents(snap.docs.map((d) => d.data()))),
+    (err) => onError?.(err)
+  );
+}
+
+function recurrenceField(repeat: NewScoutEvent["repeat"]) {
+  if (!repeat) return null;
+  return {
+    freq: repeat.freq,
+    until: repeat.until ? Timestamp.fromDate(startOfDay(repeat.until)) : null,
+    exceptions: repeat.exceptions ?? [],
+  };
+}
+
+export async function createRoomEvent(
+  roomId: string,
+  by: { uid: string; name: string },
+  ev: NewScoutEvent
+) {
+  const { start, end } = normalizeRange(ev);
+  await addDoc(collection(db, "rooms", roomId, "events"), {
+    title: ev.title.trim(),
+    place: ev.place.trim(),
+    description: ev.description.trim(),
+    start: Timestamp.fromDate(start),
+    end: Timestamp.fromDate(end),
+    allDay: ev.allDay,
+    timeZone: localTimeZone(),
+    recurrence: recurrenceField(ev.repeat),
+    cancelled: ev.cancelled === true,
+    createdAt: serverTimestamp(),
+    createdBy: by.uid,
+    createdByName: by.name,
+  });
+}
+
+// descrizione leggibile delle differenze (per history e chat)
+function describeChanges(before: ScoutEvent, after: NewScoutEvent) {
+  const out: string[] = [];
+  const range = normalizeRange(after);
+  if (after.title.trim() !== before.title) out.push(`titolo: "${before.title}" → "${after.title.trim()}"`);
+  if (after.place.trim() !== before.place) out.push(`luogo: ${before.place || "—"} → ${after.place.trim() || "—"}`);
+  if (
+    range.start.getTime() !== before.start.getTime() ||
+    range.end.getTime() !== before.end.getTime() ||
+    after.allDay !== before.allDay
+  ) {
+    out.push(`data: ${formatRange(range.start, range.end, after.allDay)}`);
+  }
+  const rec = (r: { freq: RecurrenceFreq; until: Date | null } | null | undefined) =>
+    r ? `${FREQ_LABEL[r.freq]}${r.until ? ` fino al ${formatDayShort(r.until)}` : ""}` : "non si ripete";
+  if (rec(after.repeat) !== rec(before.recurrence)) out.push(`ripetizione: ${rec(after.repeat)}`);
+  if (after.description.trim() !== before.description) out.push("descrizione aggiornata");
+  return out;
+}
+
+// batch: evento + voce nello storico + avviso in chat
+function writeChange(
+  roomId: string,
+  ev: ScoutEvent,
+  by: { uid: string; name: string },
+  action: EventChange["action"],
+  summary: string,
+  chatText: string,
+  patch: Record<string, unknown>
+) {
+  const batch = writeBatch(db);
+  const eventRef = doc(db, "rooms", roomId, "events", ev.id);
+  batch.update(eventRef, { ...patch, updatedAt: serverTimestamp() });
+  batch.set(doc(collection(eventRef, "history")), {
+    action,
+    summary,
+    byUid: by.uid,
+    byName: by.name,
+    at: serverTimestamp(),
+  });
+  batch.set(doc(collection(db, "rooms", roomId, "messages")), {
+    text: chatText,
+    eventId: ev.id,
+    uid: by.uid,
+    name: by.name,
+    createdAt: serverTimestamp(),
+  });
+  return batch.commit();
+}
+
+// false se non è cambiato niente
+export async function updateRoomEvent(
+  roomId: string,
+  by: { uid: string; name: string },
+  before: ScoutEvent,
+  after: NewScoutEvent
+) {
+  const changes = describeChanges(before, after);
+  if (changes.length === 0) return false;
+
+  const { start, end } = normalizeRange(after);
+  // le date saltate restano se la ricorrenza c'è ancora
+  const repeat = after.repeat && { ...after.repeat, exceptions: before.recurrence?.exceptions ?? [] };
+  const summary = changes.join("; ");
+  await writeChange(roomId, before, by, "edit", summary, `📅 Evento modificato: "${after.title.trim()}" — ${summary}`, {
+    title: after.title.trim(),
+    place: after.place.trim(),
+    description: after.description.trim(),
+    start: Timestamp.fromDate(start),
+    end: Timestamp.fromDate(end),
+    allDay: after.allDay,
+    recurrence: recurrenceField(repeat),
+  });
+  return true;
+}
+
+export async function setEventCancelled(
+  roomId: string,
+  by: { uid: string; name: string },
+  ev: ScoutEvent,
+  cancelled: boolean
+) {
+  const when = formatRange(ev.start, ev.end, ev.allDay);
+  await writeChange(
+    roomId,
+    ev,
+    by,
+    cancelled ? "cancel" : "restore",
+    cancelled ? "evento annullato" : "evento ripristinato",
+    cancelled ? `❌ Evento annullato: "${ev.title}" (${when})` : `✅ Evento ripristinato: "${ev.title}" (${when})`,
+    { cancelled }
+  );
+}
+
+export function subscribeEventHistory(
+  roomId: string,
+  eventId: string,
+  onHistory: (list: EventChange[]) => void
+) {
+  const q = query(
+    collection(db, "rooms", roomId, "events", eventId, "history").withConverter(changeConverter),
+    orderBy("at", "desc")
+  );
+  return onSnapshot(
+    q,
+    (snap) => onHistory(snap.docs.map((d) => d.data())),
+    () => onHistory([])
+  );
+}
+
+// sul server (lib/eventsServer.ts), per portarsi via anche rsvps/, history/ e attendance/
+export async function deleteRoomEvent(roomId: string, eventId: string) {
+  await deleteEvent(roomId, eventId);
+}
+
+// salta una singola occorrenza di un evento ricorrente
+export async function skipOccurrence(roomId: string, eventId: string, occurrence: string) {
+  await updateDoc(doc(db, "rooms", roomId, "events", eventId), {
+    "recurrence.exceptions": arrayUnion(occurrence),
+  });
+}
+
+export function subscribeRsvps(
+  roomId: string,
+  eventId: string,
+  occurrence: string,
+  onRsvps: (list: Rsvp[]) => void
+) {
+  const q = query(
+    collection(db, "rooms", roomId, "events", eventId, "rsvps").withConverter(rsvpConverter),
+    where("occurrence", "==", occurrence)
+  );
+  return onSnapshot(
+    q,
+    (snap) => onRsvps(snap.docs.map((d) => d.data())),
+    () => onRsvps([])
+  );
+}
+
+export async function setRsvp(
+  roomId: string,
+  eventId: string,
+  occurrence: string,
+  by: { uid: string; name: string },
+  status: RsvpStatus,
+  note: string
+) {
+  await setDoc(
+    doc(db, "rooms", roomId, "events", eventId, "rsvps", `${occurrence}_${by.uid}`).withConverter(rsvpConverter),
+    {
+      uid: by.uid,
+      name: by.name,
+      occurrence,
+      status,
+      note: note.trim(),
+      updatedAt: serverTimestamp(),
+    }
+  );
+}
+
+export function subscribeAttendance(
+  roomId: string,
+  eventId: string,
+  occurrence: string,
+  onAttendance: (a: Attendance | null) => void
+) {
+  return onSnapshot(
+    doc(db, "rooms", roomId, "events", eventId, "attendance", occurrence).withConverter(attendanceConverter),
+    (snap) => onAttendance(snap.exists() ? snap.data() : null),
+    () => onAttendance(null)
+  );
+}
+
+export async function setPresent(
+  roomId: string,
+  eventId: string,
+  occurrence: string,
+  byUid: string,
+  uid: string,
+  present: boolean
+) {
+  await setDoc(
+    doc(db, "rooms", roomId, "events", eventId, "attendance", occurrence),
+    {
+      present: present ? arrayUnion(uid) : arrayRemove(uid),
+      markedByUid: byUid,
+      markedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
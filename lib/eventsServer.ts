@@ -0,0 +1,27 @@
+import { ApiError, type ApiUser } from "./apiServer";
+import { adminDb } from "./firebaseAdmin";
+
+// Eliminazione di un evento del calendario, lato server: con il doc se ne vanno anche
+// rsvps/, history/ e attendance/ (dal client non si possono cancellare le risposte degli altri
+// né lo storico). Chi può: come prima nelle regole, admin o chi l'ha creato, a room non archiviata.
+export async function deleteEvent(user: ApiUser, roomId: string, eventId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const eventRef = roomRef.collection("events").doc(eventId);
+  const [room, me, event] = await Promise.all([
+    roomRef.get(),
+    roomRef.collection("members").doc(user.uid).get(),
+    eventRef.get(),
+  ]);
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  if (!me.exists) throw new ApiError(403, "Non fai parte di questa room.");
+  if (room.get("archived") === true) throw new ApiError(403, "La room è archiviata: è in sola lettura.");
+  if (!event.exists) throw new ApiError(404, "Evento non trovato.");
+
+  const role = me.get("role");
+  const admin = room.get("adminUid") === user.uid || role === "admin" || role === "owner";
+  if (!admin && event.get("createdBy") !== user.uid) {
+    throw new ApiError(403, "Solo gli admin o chi ha creato l'evento possono eliminarlo.");
+  }
+
+  await adminDb.recursiveDelete(eventRef);
+}
@@ -1,8 +1,16 @@
 "use client";
 
 import { initializeApp, getApps, getApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from "firebase/firestore";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 // Config SOLO da env (Vercel le inietta in build)
 const firebaseConfig = {
@@ -17,6 +25,28 @@ const firebaseConfig = {
 // App init (una sola volta)
 export const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
 
-// Auth / DB (client)
+// Firestore con cache persistente (IndexedDB, condivisa fra le schede): chat e calendario già visti
+// restano leggibili offline e le scritture aspettano la rete. Lato server (prerender) cache in memoria.
+function createDb(): Firestore {
+  if (typeof window === "undefined") return getFirestore(app);
+  try {
+    return initializeFirestore(app, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) });
+  } catch {
+    // già inizializzato (hot reload)
+    return getFirestore(app);
+  }
+}
+
+// Auth / DB / Storage (client)
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+export const db = createDb();
+export const storage = getStorage(app);
+
+// Emulatori locali (firebase.json): NEXT_PUBLIC_FIREBASE_EMULATORS=1
+const g = globalThis as { __scouthubEmulators?: boolean };
+if (process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === "1" && !g.__scouthubEmulators) {
+  g.__scouthubEmulators = true;
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+  connectStorageEmulator(storage, "127.0.0.1", 9199);
+}
@@ -0,0 +1,28 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { getMessaging } from "firebase-admin/messaging";
+import { getStorage } from "firebase-admin/storage";
+
+// Admin SDK: SOLO lato server (route handler in app/api). Ignora le regole di sicurezza.
+// Credenziali: FIREBASE_SERVICE_ACCOUNT (JSON del service account) oppure quelle di default
+// dell'ambiente. Con gli emulatori bastano FIRESTORE_EMULATOR_HOST e FIREBASE_AUTH_EMULATOR_HOST
+// (FIREBASE_STORAGE_EMULATOR_HOST per gli allegati).
+
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const storageBucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+
+// con gli emulatori niente credential: initializeApp rifiuta anche credential: undefined
+function credential() {
+  const json = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (json) return { credential: cert(JSON.parse(json)) };
+  if (process.env.FIRESTORE_EMULATOR_HOST) return {};
+  return { credential: applicationDefault() };
+}
+
+export const adminApp = getApps().length ? getApp() : initializeApp({ ...credential(), projectId, storageBucket });
+
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
+export const adminStorage = getStorage(adminApp);
+export const adminMessaging = getMessaging(adminApp);
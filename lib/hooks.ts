@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { subscribeRoomEvents, type ScoutEvent } from "./events";
+import { subscribeMembers, type Member } from "./members";
+import { subscribeOnline } from "./offline";
+import { subscribePresence, type Presence } from "./presence";
+import {
+  subscribeBans,
+  subscribeInvites,
+  subscribeJoinRequests,
+  subscribeRoom,
+  type Ban,
+  type JoinRequest,
+  type RoomData,
+} from "./rooms";
+import { createSpeakingMonitor, type SpeakingMonitor } from "./speaking";
+import type { Invite } from "./roomsApi";
+import { subscribeUserRooms, type SavedRoom } from "./userRooms";
+import { subscribeVoiceMembers, type VoiceMember } from "./voice";
+
+// Hook sui listener dei moduli in lib/: uno per chiave (uid o roomId), null = nessun listener.
+// Al cambio di chiave si riparte dal valore iniziale, mai dai dati della room/utente di prima.
+function useLive<T>(
+  key: string | null,
+  subscribe: (key: string, onValue: (value: T) => void) => () => void,
+  initial: T
+) {
+  const [state, setState] = useState<{ key: string | null; value: T }>({ key: null, value: initial });
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribe(key, (value) => setState({ key, value }));
+  }, [key, subscribe]);
+
+  return state.key === key ? state.value : initial;
+}
+
+// stesso array vuoto a ogni render (i consumer lo usano nelle dipendenze)
+const NONE: never[] = [];
+
+export function useUserRooms(uid: string | null): SavedRoom[] {
+  return useLive(uid, subscribeUserRooms, NONE);
+}
+
+export function useRoom(roomId: string, enabled = true): RoomData | null {
+  return useLive<RoomData | null>(enabled && roomId ? roomId : null, subscribeRoom, null);
+}
+
+export function useMembers(roomId: string, enabled = true): Member[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeMembers, NONE);
+}
+
+export function useBans(roomId: string, enabled = true): Ban[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeBans, NONE);
+}
+
+export function useJoinRequests(roomId: string, enabled = true): JoinRequest[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeJoinRequests, NONE);
+}
+
+export function useInvites(roomId: string, enabled = true): Invite[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeInvites, NONE);
+}
+
+export function useVoiceMembers(roomId: string, enabled = true): VoiceMember[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeVoiceMembers, NONE);
+}
+
+export function usePresence(roomId: string, enabled = true): Presence[] {
+  return useLive(enabled && roomId ? roomId : null, subscribePresence, NONE);
+}
+
+// orologio per gli heartbeat: i doc non cambiano quando diventano vecchi
+export function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(t);
+  }, [intervalMs]);
+  return now;
+}
+
+// rete del browser (lato server si parte "online")
+export function useOnline() {
+  return useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+export function useRoomEvents(roomId: string, enabled = true): ScoutEvent[] {
+  return useLive(enabled && roomId ? roomId : null, subscribeRoomEvents, NONE);
+}
+
+// uid di chi sta parlando tra le tracce date (uid → traccia audio); nessuna traccia = nessun AudioContext
+export function useSpeaking(tracks: Record<string, MediaStreamTrack>): string[] {
+  const [speaking, setSpeaking] = useState<string[]>(NONE);
+  const monitorRef = useRef<SpeakingMonitor | null>(null);
+  const active = Object.keys(tracks).length > 0;
+
+  useEffect(() => {
+    if (!active) return;
+    const monitor = createSpeakingMonitor(setSpeaking);
+    monitorRef.current = monitor;
+    return () => {
+      monitor.close();
+      monitorRef.current = null;
+    };
+  }, [active]);
+
+  useEffect(() => {
+    monitorRef.current?.update(tracks);
+  }, [tracks, active]);
+
+  return active ? speaking : NONE;
+}
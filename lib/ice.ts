@@ -0,0 +1,110 @@
+"use client";
+
+import type { IceConfig } from "./iceServer";
+import { roomIceConfig } from "./roomsApi";
+import type { PeerState } from "./voiceMesh";
+
+// Server ICE del vocale lato client e diagnostica della connessione.
+// La configurazione arriva da app/api/rooms/[roomId]/ice (STUN e TURN dall'ambiente, vedi lib/iceServer.ts)
+// e resta in memoria finché le credenziali TURN non stanno per scadere. Senza risposta dal server
+// si usa lo STUN pubblico (fallback: true), che non basta dietro i NAT più chiusi.
+
+export type RoomIce = IceConfig & { fallback: boolean };
+
+const FALLBACK: RoomIce = {
+  iceServers: [{ urls: ["stun:stun.l.google.com:19302"] }],
+  turn: false,
+  expiresAt: null,
+  fallback: true,
+};
+
+// margine: una chiamata iniziata adesso deve poter rinnovare le connessioni (ICE restart)
+const RENEW_BEFORE_MS = 30 * 60 * 1000;
+
+const cache = new Map<string, RoomIce>();
+
+export async function getRoomIce(roomId: string): Promise<RoomIce> {
+  const hit = cache.get(roomId);
+  if (hit && (hit.expiresAt === null || hit.expiresAt - Date.now() > RENEW_BEFORE_MS)) return hit;
+  try {
+    const config = { ...(await roomIceConfig(roomId)), fallback: false };
+    cache.set(roomId, config);
+    return config;
+  } catch {
+    return FALLBACK;
+  }
+}
+
+export function rtcConfigOf(ice: RoomIce): RTCConfiguration {
+  return { iceServers: ice.iceServers };
+}
+
+// -------- Test della connessione (prima di entrare) --------
+
+// host: rete locale; srflx: indirizzo pubblico via STUN; relay: TURN raggiungibile
+export type IceProbe = { host: boolean; srflx: boolean; relay: boolean };
+
+// raccoglie i candidates di una connessione finta, senza nessun altro dall'altra parte
+export async function probeIce(ice: RoomIce, timeoutMs = 6000): Promise<IceProbe> {
+  const found: IceProbe = { host: false, srflx: false, relay: false };
+  let pc: RTCPeerConnection;
+  try {
+    pc = new RTCPeerConnection(rtcConfigOf(ice));
+  } catch {
+    // server ICE non validi: nessun candidate
+    return found;
+  }
+  try {
+    pc.createDataChannel("probe");
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      pc.onicecandidate = (event) => {
+        if (!event.candidate) {
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        const type = event.candidate.type;
+        if (type === "host" || type === "srflx" || type === "relay") found[type] = true;
+      };
+      pc.createOffer()
+        .then((offer) => pc.setLocalDescription(offer))
+        .catch(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+    });
+  } finally {
+    pc.close();
+  }
+  return found;
+}
+
+export function probeVerdict(ice: RoomIce, probe: IceProbe) {
+  if (probe.relay) return "✅ Connessione ok, anche dietro reti chiuse (TURN).";
+  if (ice.turn) return "⚠️ Il server TURN non risponde: dietro reti chiuse il vocale potrebbe non collegarsi.";
+  if (probe.srflx) return "✅ Connessione diretta ok. Senza TURN alcune reti (scuole, parrocchie) possono bloccarla.";
+  if (probe.host) return "⚠️ Solo rete locale: il vocale funziona solo con chi è sulla stessa rete.";
+  return "❌ Nessuna connessione possibile: controlla la rete.";
+}
+
+// -------- Stato delle connessioni in chiamata (per voiceStatus) --------
+
+// peers: gli altri in vocale, con lo stato della connessione verso ciascuno
+export function connectionSummary(peers: { name: string; state: PeerState | undefined }[], ice: RoomIce | null) {
+  const parts: string[] = [];
+  if (peers.length === 0) {
+    parts.push("Sei da solo in chiamata");
+  } else {
+    const connected = peers.filter((p) => p.state === "connected").length;
+    parts.push(`🔗 Connesso con ${connected}/${peers.length}`);
+    const restarting = peers.filter((p) => p.state === "restarting" || p.state === "disconnected");
+    if (restarting.length > 0) parts.push(`🔄 riconnessione: ${restarting.map((p) => p.name).join(", ")}`);
+    const failed = peers.filter((p) => p.state === "failed");
+    if (failed.length > 0) {
+      parts.push(`⚠️ non raggiungibil${failed.length === 1 ? "e" : "i"}: ${failed.map((p) => p.name).join(", ")}`);
+    }
+  }
+  if (ice?.fallback) parts.push("server ICE della room non raggiungibili, uso lo STUN pubblico");
+  return parts.join(" • ");
+}
@@ -0,0 +1,63 @@
+import { createHmac } from "crypto";
+import { ApiError, type ApiUser } from "./apiServer";
+import { adminDb } from "./firebaseAdmin";
+
+// Server ICE del vocale (lib/voiceMesh.ts), configurati dall'ambiente:
+// - ICE_STUN_URLS: STUN separati da virgola (default lo STUN pubblico di Google; vuoto = nessuno)
+// - TURN_URLS + TURN_SECRET: TURN con credenziali temporanee (REST API di coturn, "use-auth-secret"):
+//   username = "<scadenza unix>:<uid>", credential = base64(HMAC-SHA1(TURN_SECRET, username))
+// - TURN_TTL_SECONDS: durata delle credenziali TURN (default 6 ore)
+// Il TURN serve dietro i NAT che non lasciano passare le connessioni dirette (scuole, parrocchie…).
+
+export type IceServer = { urls: string[]; username?: string; credential?: string };
+
+// expiresAt: quando scadono le credenziali TURN (ms), null senza TURN
+export type IceConfig = { iceServers: IceServer[]; turn: boolean; expiresAt: number | null };
+
+const DEFAULT_STUN = ["stun:stun.l.google.com:19302"];
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+
+// solo URL ben formati (host[:porta], ?transport= solo per il TURN): con uno sbagliato
+// new RTCPeerConnection lancia un'eccezione nel browser e il vocale non parte
+const VALID_URL = {
+  stun: /^stuns?:[^\s/?#@]+$/i,
+  turn: /^turns?:[^\s/?#@]+(\?transport=(udp|tcp))?$/i,
+};
+
+function urlList(value: string | undefined, scheme: keyof typeof VALID_URL) {
+  const valid = VALID_URL[scheme];
+  return (value ?? "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter((u) => valid.test(u));
+}
+
+export function turnCredentials(uid: string, secret: string, ttlSeconds: number, now = Date.now()) {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${uid}`;
+  const credential = createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+export function iceConfigFor(uid: string, now = Date.now()): IceConfig {
+  const stun = process.env.ICE_STUN_URLS === undefined ? DEFAULT_STUN : urlList(process.env.ICE_STUN_URLS, "stun");
+  const iceServers: IceServer[] = stun.length > 0 ? [{ urls: stun }] : [];
+
+  const turnUrls = urlList(process.env.TURN_URLS, "turn");
+  const secret = process.env.TURN_SECRET;
+  if (turnUrls.length === 0 || !secret) return { iceServers, turn: false, expiresAt: null };
+
+  const ttl = Number(process.env.TURN_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  const { username, credential, expiresAt } = turnCredentials(uid, secret, ttl, now);
+  iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, turn: true, expiresAt };
+}
+
+// le credenziali TURN costano banda: solo ai membri della room
+export async function roomIceConfig(user: ApiUser, roomId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const [room, me] = await Promise.all([roomRef.get(), roomRef.collection("members").doc(user.uid).get()]);
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  if (!me.exists) throw new ApiError(403, "Non fai parte di questa room.");
+  return iceConfigFor(user.uid);
+}
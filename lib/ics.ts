@@ -0,0 +1,295 @@
+import { addDays, partsInZone, startOfDay, utcOf, validZone, zonedToDate, type ZoneParts } from "./calendar";
+import type { NewScoutEvent, ScoutEvent } from "./events";
+import { expandOccurrences, occurrenceKey, type RecurrenceFreq } from "./recurrence";
+
+// iCalendar (RFC 5545): export degli eventi della room e import di file .ics.
+// Gli eventi con orario escono con TZID (fuso di chi li ha creati), così le ricorrenze
+// restano alla stessa ora anche col cambio dell'ora legale.
+
+function pad(n: number, len = 2) {
+  return String(n).padStart(len, "0");
+}
+
+function fmtDate(d: Date) {
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+}
+
+function fmtParts(p: ZoneParts) {
+  return `${p.y}${pad(p.mo)}${pad(p.d)}T${pad(p.h)}${pad(p.mi)}${pad(p.s)}`;
+}
+
+function fmtUtc(d: Date) {
+  return `${fmtParts({
+    y: d.getUTCFullYear(),
+    mo: d.getUTCMonth() + 1,
+    d: d.getUTCDate(),
+    h: d.getUTCHours(),
+    mi: d.getUTCMinutes(),
+    s: d.getUTCSeconds(),
+  })}Z`;
+}
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+function unescapeText(v: string) {
+  return v.replace(/\\([\\,;nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// righe al massimo di 75 byte, le continuazioni iniziano con uno spazio
+function fold(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    if (bytes + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+// ---------- export ----------
+
+function dateProp(name: string, d: Date, ev: Pick<ScoutEvent, "allDay" | "timeZone">) {
+  if (ev.allDay) return `${name};VALUE=DATE:${fmtDate(d)}`;
+  if (!validZone(ev.timeZone)) return `${name}:${fmtUtc(d)}`;
+  return `${name};TZID=${ev.timeZone}:${fmtParts(partsInZone(d, ev.timeZone))}`;
+}
+
+function rrule(ev: ScoutEvent) {
+  const rec = ev.recurrence!;
+  const parts = [rec.freq === "monthly" ? "FREQ=MONTHLY" : "FREQ=WEEKLY"];
+  if (rec.freq === "biweekly") parts.push("INTERVAL=2");
+  if (rec.until) {
+    // until è l'ultimo giorno incluso
+    const last = addDays(startOfDay(rec.until), 1);
+    parts.push(`UNTIL=${ev.allDay ? fmtDate(rec.until) : fmtUtc(new Date(last.getTime() - 1000))}`);
+  }
+  return `RRULE:${parts.join(";")}`;
+}
+
+function vevent(ev: ScoutEvent, stamp: string) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${ev.id}@${ev.roomId}.scouthub`,
+    `DTSTAMP:${stamp}`,
+    dateProp("DTSTART", ev.start, ev),
+    dateProp("DTEND", ev.end, ev),
+    `SUMMARY:${escapeText(ev.title)}`,
+  ];
+  if (ev.place) lines.push(`LOCATION:${escapeText(ev.place)}`);
+  if (ev.description) lines.push(`DESCRIPTION:${escapeText(ev.description)}`);
+  if (ev.cancelled) lines.push("STATUS:CANCELLED");
+  if (ev.recurrence) {
+    lines.push(rrule(ev));
+    for (const key of ev.recurrence.exceptions) {
+      const [y, m, d] = key.split("-").map(Number);
+      const at = new Date(y, m - 1, d, ev.start.getHours(), ev.start.getMinutes());
+      lines.push(dateProp("EXDATE", at, ev));
+    }
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// eventi "sorgente" (non le occorrenze espanse): la ricorrenza la espande il calendario di chi importa
+export function eventsToIcs(events: ScoutEvent[], calendarName: string) {
+  const stamp = fmtUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ScoutHub//Calendario//IT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((ev) => vevent(ev, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+// una sola occorrenza di un evento che si ripete: la sua data, senza RRULE (e con un UID suo,
+// altrimenti il calendario la scambia per la serie)
+export function singleOccurrence(ev: ScoutEvent): ScoutEvent {
+  if (!ev.recurrence || !ev.occurrence) return ev;
+  return { ...ev, id: `${ev.id}-${ev.occurrence}`, recurrence: null };
+}
+
+export function icsFileName(name: string) {
+  const safe = name.replace(/[^\w\-]+/g, "_").replace(/^_+|_+$/g, "");
+  return `${safe || "calendario"}.ics`;
+}
+
+export function downloadIcs(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/calendar;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ---------- import ----------
+
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+function parseLines(text: string): Prop[] {
+  const unfolded = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "");
+  const out: Prop[] = [];
+  for (const line of unfolded.split("\n")) {
+    const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    if (colon < 0) continue;
+    const [name, ...rest] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const p of rest) {
+      const eq = p.indexOf("=");
+      if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+    out.push({ name: name.toUpperCase(), params, value: line.slice(colon + 1) });
+  }
+  return out;
+}
+
+// DATE, DATE-TIME UTC ("Z"), con TZID o "floating" (ora locale)
+function parseIcsDate(p: Prop): { date: Date; allDay: boolean } | null {
+  const v = p.value.trim();
+  const dm = /^(\d{4})(\d{2})(\d{2})$/.exec(v);
+  if (dm) return { date: new Date(+dm[1], +dm[2] - 1, +dm[3]), allDay: true };
+
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/.exec(v);
+  if (!m) return null;
+  const parts: ZoneParts = { y: +m[1], mo: +m[2], d: +m[3], h: +m[4], mi: +m[5], s: m[6] ? +m[6] : 0 };
+  if (m[7]) return { date: new Date(utcOf(parts)), allDay: false };
+  const tz = p.params.TZID;
+  if (tz && validZone(tz)) return { date: zonedToDate(parts, tz), allDay: false };
+  return { date: new Date(parts.y, parts.mo - 1, parts.d, parts.h, parts.mi, parts.s), allDay: false };
+}
+
+// solo "P1D", "PT1H30M", "P1W"...
+function parseDuration(v: string) {
+  const m = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(v.trim());
+  if (!m) return null;
+  const [w, d, h, mi, s] = m.slice(1).map((x) => (x ? Number(x) : 0));
+  return ((((w * 7 + d) * 24 + h) * 60 + mi) * 60 + s) * 1000;
+}
+
+// ricorrenze che ScoutHub sa rappresentare; le altre diventano un evento singolo
+function parseRrule(value: string, start: Date) {
+  const r: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [k, v] = part.split("=");
+    if (k && v) r[k.toUpperCase()] = v.toUpperCase();
+  }
+  const interval = Number(r.INTERVAL ?? "1");
+  let freq: RecurrenceFreq | null = null;
+  if (r.FREQ === "WEEKLY" && (interval === 1 || interval === 2)) {
+    const sameDay = !r.BYDAY || r.BYDAY === ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][start.getDay()];
+    if (sameDay) freq = interval === 2 ? "biweekly" : "weekly";
+  }
+  if (r.FREQ === "MONTHLY" && interval === 1 && !r.BYDAY && (!r.BYMONTHDAY || +r.BYMONTHDAY === start.getDate())) {
+    freq = "monthly";
+  }
+  if (!freq || r.BYSETPOS || r.BYMONTH) return null;
+
+  let until: Date | null = null;
+  if (r.UNTIL) {
+    const parsed = parseIcsDate({ name: "UNTIL", params: {}, value: r.UNTIL });
+    if (parsed) until = startOfDay(parsed.date);
+  } else if (r.COUNT) {
+    const count = Math.max(1, Number(r.COUNT));
+    const rec = { freq, until: null, exceptions: [] };
+    // COUNT conta anche le occorrenze tolte con EXDATE; from prima di start, altrimenti la prima
+    // (durata zero) non "tocca" l'intervallo
+    const list = expandOccurrences({ start, end: start, recurrence: rec }, addDays(start, -1), addDays(start, 366 * 50));
+    const last = list[Math.min(count, list.length) - 1];
+    if (last) until = startOfDay(last.start);
+  }
+  return { freq, until };
+}
+
+export type IcsImport = {
+  events: NewScoutEvent[];
+  skipped: number; // VEVENT senza data valida o modifiche di una singola data (RECURRENCE-ID)
+  simplified: number; // ricorrenze non supportate importate come evento singolo
+};
+
+export function parseIcs(text: string): IcsImport {
+  const result: IcsImport = { events: [], skipped: 0, simplified: 0 };
+  let cur: Prop[] | null = null;
+
+  for (const p of parseLines(text)) {
+    if (p.name === "BEGIN" && p.value.toUpperCase() === "VEVENT") {
+      cur = [];
+    } else if (p.name === "END" && p.value.toUpperCase() === "VEVENT") {
+      if (cur) {
+        const ev = toNewEvent(cur, result);
+        if (ev) result.events.push(ev);
+        else result.skipped++;
+      }
+      cur = null;
+    } else if (cur) {
+      cur.push(p);
+    }
+  }
+  return result;
+}
+
+function toNewEvent(props: Prop[], result: IcsImport): NewScoutEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtStart = get("DTSTART");
+  const start = dtStart && parseIcsDate(dtStart);
+  if (!start) return null;
+
+  // modifiche/annullamenti di una singola occorrenza: non supportati
+  if (get("RECURRENCE-ID")) return null;
+
+  const dtEnd = get("DTEND");
+  const duration = get("DURATION");
+  let end = dtEnd ? parseIcsDate(dtEnd)?.date ?? null : null;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end) end = start.allDay ? addDays(start.date, 1) : start.date;
+
+  const allDay = start.allDay;
+  // per createRoomEvent l'ultimo giorno degli eventi "tutto il giorno" è incluso
+  const lastDay = allDay ? addDays(end, -1) : end;
+
+  const ev: NewScoutEvent = {
+    title: unescapeText(get("SUMMARY")?.value ?? "").trim() || "Evento",
+    place: unescapeText(get("LOCATION")?.value ?? ""),
+    description: unescapeText(get("DESCRIPTION")?.value ?? ""),
+    start: start.date,
+    end: lastDay < start.date ? start.date : lastDay,
+    allDay,
+    repeat: null,
+    // come li esporta vevent: l'evento resta, annullato
+    cancelled: get("STATUS")?.value.toUpperCase() === "CANCELLED",
+  };
+
+  const rrule = get("RRULE");
+  if (rrule) {
+    const rec = parseRrule(rrule.value, start.date);
+    if (!rec) {
+      result.simplified++;
+      return ev;
+    }
+    const exceptions = props
+      .filter((p) => p.name === "EXDATE")
+      .flatMap((p) => p.value.split(",").map((value) => parseIcsDate({ ...p, value })))
+      .filter((x): x is { date: Date; allDay: boolean } => !!x)
+      .map((x) => occurrenceKey(x.date));
+    ev.repeat = { ...rec, exceptions };
+  }
+  return ev;
+}
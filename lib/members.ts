@@ -0,0 +1,152 @@
+"use client";
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { clearPresence } from "./presence";
+import type { RoomData } from "./rooms";
+import { forgetUserRoom } from "./userRooms";
+import { leaveVoice } from "./voice";
+
+// Membri della room (rooms/{roomId}/members/{uid}): ruolo, override dei permessi, "ultimo letto".
+
+export type Role = "owner" | "admin" | "moderator" | "member";
+
+export type Member = {
+  uid: string;
+  name: string;
+  role: Role;
+  canChat?: boolean;
+  canCall?: boolean;
+  joinedAt: Date | null;
+  lastReadAt: Date | null;
+};
+
+// Gerarchia ruoli (stessi valori in firestore.rules)
+export const ROLE_RANK: Record<Role, number> = { owner: 3, admin: 2, moderator: 1, member: 0 };
+
+export function roleAtLeast(role: Role | "none", min: Role) {
+  if (role === "none") return false;
+  return (ROLE_RANK[role] ?? 0) >= ROLE_RANK[min];
+}
+
+// Stessa logica dei permessi "effettivi" del proprio utente, usata anche per gli altri membri
+// (nelle room archiviate non scrive e non chiama nessuno)
+export function memberCanChat(room: RoomData, m: Pick<Member, "role" | "canChat">) {
+  if (room.archived) return false;
+  if (roleAtLeast(m.role, "moderator")) return true;
+  if (room.lockChat) return false;
+  if (typeof m.canChat === "boolean") return m.canChat;
+  return room.defaultCanChat ?? true;
+}
+
+export function memberCanCall(room: RoomData, m: Pick<Member, "role" | "canCall">) {
+  if (room.archived) return false;
+  if (roleAtLeast(m.role, "moderator")) return true;
+  if (room.lockCalls) return false;
+  if (typeof m.canCall === "boolean") return m.canCall;
+  return room.defaultCanCall ?? true;
+}
+
+const memberConverter = readConverter<Member>((d) => {
+  const data = d.data();
+  return {
+    uid: d.id,
+    name: data.name ?? "utente",
+    role: data.role in ROLE_RANK ? data.role : "member",
+    canChat: data.canChat,
+    canCall: data.canCall,
+    joinedAt: toDate(data.joinedAt),
+    lastReadAt: toDate(data.lastReadAt),
+  };
+});
+
+function memberRef(roomId: string, uid: string) {
+  return doc(db, "rooms", roomId, "members", uid).withConverter(memberConverter);
+}
+
+export async function getMember(roomId: string, uid: string) {
+  const snap = await getDoc(memberRef(roomId, uid));
+  return snap.exists() ? snap.data() : null;
+}
+
+// ruolo più alto in cima, poi per nome
+export function subscribeMembers(roomId: string, onMembers: (list: Member[]) => void) {
+  return onSnapshot(
+    collection(db, "rooms", roomId, "members").withConverter(memberConverter),
+    (snap) => {
+      const list = snap.docs.map((d) => d.data());
+      list.sort((a, b) => {
+        if (a.role !== b.role) return ROLE_RANK[b.role] - ROLE_RANK[a.role];
+        return a.name.localeCompare(b.name);
+      });
+      onMembers(list);
+    },
+    () => onMembers([])
+  );
+}
+
+// all'apertura della room: aggiorna il nome; l'owner delle room più vecchie si crea il member doc.
+// false se non si è membri (ruolo e override decisi da owner/admin restano)
+export async function refreshMember(roomId: string, user: { uid: string; name: string }, isOwner: boolean) {
+  const me = await getMember(roomId, user.uid);
+  const ref = doc(db, "rooms", roomId, "members", user.uid);
+
+  // scritture senza await: offline restano in coda e la room si apre lo stesso
+  if (me) {
+    // room create prima dei ruoli: l'owner aveva role "admin"
+    updateDoc(ref, isOwner && me.role !== "owner" ? { name: user.name, role: "owner" } : { name: user.name }).catch(() => {});
+    return true;
+  }
+  if (!isOwner) return false;
+
+  // room create prima di app/api/rooms: l'owner non ha ancora il member doc
+  setDoc(ref, {
+    uid: user.uid,
+    name: user.name,
+    role: "owner",
+    canChat: true,
+    canCall: true,
+    joinedAt: serverTimestamp(),
+  }).catch(() => {});
+  return true;
+}
+
+export async function updateMember(
+  roomId: string,
+  uid: string,
+  patch: { canChat?: boolean; canCall?: boolean; role?: Exclude<Role, "owner"> }
+) {
+  await updateDoc(doc(db, "rooms", roomId, "members", uid), patch);
+}
+
+export async function markRead(roomId: string, uid: string) {
+  await updateDoc(doc(db, "rooms", roomId, "members", uid), { lastReadAt: serverTimestamp() });
+}
+
+// kick, ban o uscita: fuori dal vocale, dai membri e dal suo elenco di room (anche se è offline)
+export async function removeMember(roomId: string, uid: string) {
+  await leaveVoice(roomId, uid).catch(() => {});
+  await clearPresence(roomId, uid).catch(() => {});
+  await deleteDoc(doc(db, "rooms", roomId, "members", uid));
+  await forgetUserRoom(uid, roomId).catch(() => {});
+}
+
+// l'owner passa la room a un altro membro e resta admin
+export async function transferOwnership(roomId: string, fromUid: string, toUid: string) {
+  const batch = writeBatch(db);
+  batch.update(doc(db, "rooms", roomId), { adminUid: toUid });
+  batch.update(doc(db, "rooms", roomId, "members", toUid), { role: "owner" });
+  batch.update(doc(db, "rooms", roomId, "members", fromUid), { role: "admin" });
+  await batch.commit();
+}
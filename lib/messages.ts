@@ -0,0 +1,157 @@
+"use client";
+
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  getCountFromServer,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAfter,
+  updateDoc,
+  where,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { removeAttachment, type Attachment } from "./attachments";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { notifyRoom } from "./roomsApi";
+
+// Chat della room (rooms/{roomId}/messages): la pagina più recente è live,
+// quelle vecchie si caricano scrollando in su. I messaggi non si cancellano: restano come "tombstone".
+// Senza rete i messaggi scritti restano in coda nella cache di Firestore (pending) e partono dopo.
+
+export type Msg = {
+  id: string;
+  text: string;
+  uid: string;
+  name: string;
+  createdAt: Date | null;
+  editedAt: Date | null;
+  attachment?: Attachment;
+  // eliminato: resta come "tombstone" nella chat
+  deleted?: boolean;
+  deletedByUid?: string;
+  // avviso automatico del calendario (evento modificato / annullato)
+  eventId?: string;
+  // scritto ma non ancora arrivato al server (offline)
+  pending?: boolean;
+};
+
+// cursore per caricare la pagina precedente
+export type MsgCursor = QueryDocumentSnapshot<Msg>;
+
+export const CHAT_PAGE_SIZE = 30;
+
+const messageConverter = readConverter<Msg>((d) => {
+  // serverTimestamp ancora in volo: usiamo la stima locale per l'ordine
+  const data = d.data({ serverTimestamps: "estimate" });
+  return {
+    id: d.id,
+    text: data.text ?? "",
+    uid: data.uid,
+    name: data.name,
+    createdAt: toDate(data.createdAt),
+    editedAt: toDate(data.editedAt),
+    attachment: data.attachment ?? undefined,
+    deleted: data.deleted === true,
+    deletedByUid: data.deletedByUid,
+    eventId: data.eventId,
+    pending: d.metadata.hasPendingWrites,
+  };
+});
+
+function messagesCol(roomId: string) {
+  return collection(db, "rooms", roomId, "messages").withConverter(messageConverter);
+}
+
+export function mergeMsgs(prev: Msg[], incoming: Msg[]) {
+  const byId = new Map<string, Msg>();
+  prev.forEach((m) => byId.set(m.id, m));
+  incoming.forEach((m) => byId.set(m.id, m));
+  return Array.from(byId.values()).sort(
+    (a, b) => (a.createdAt?.getTime() ?? Infinity) - (b.createdAt?.getTime() ?? Infinity)
+  );
+}
+
+// solo l'ultima pagina è live: i messaggi che escono dalla finestra restano in lista
+// ("removed" qui vuol dire fuori dal limit). Con la prima pagina arriva anche il cursore:
+// le risposte dalla cache (persistentLocalCache) possono essere parziali, quindi cursore e
+// "ce ne sono di più vecchi" si aggiornano fino alla prima risposta del server.
+// Con i metadati: un messaggio in coda smette di essere "pending" quando il server lo riceve.
+export function subscribeLatestMessages(
+  roomId: string,
+  onChanged: (changed: Msg[]) => void,
+  onFirstPage: (cursor: MsgCursor | null, hasOlder: boolean) => void
+) {
+  const q = query(messagesCol(roomId), orderBy("createdAt", "desc"), limit(CHAT_PAGE_SIZE));
+  let fromServer = false;
+  return onSnapshot(q, { includeMetadataChanges: true }, (snap) => {
+    onChanged(
+      snap
+        .docChanges({ includeMetadataChanges: true })
+        .filter((c) => c.type !== "removed")
+        .map((c) => c.doc.data())
+    );
+    if (!fromServer) {
+      fromServer = !snap.metadata.fromCache;
+      onFirstPage(snap.docs[snap.docs.length - 1] ?? null, snap.docs.length === CHAT_PAGE_SIZE);
+    }
+  });
+}
+
+export async function loadOlderMessages(roomId: string, cursor: MsgCursor) {
+  const snap = await getDocs(
+    query(messagesCol(roomId), orderBy("createdAt", "desc"), startAfter(cursor), limit(CHAT_PAGE_SIZE))
+  );
+  return {
+    messages: snap.docs.map((d) => d.data()),
+    cursor: snap.docs[snap.docs.length - 1] ?? cursor,
+    hasOlder: snap.docs.length === CHAT_PAGE_SIZE,
+  };
+}
+
+export async function sendMessage(
+  roomId: string,
+  by: { uid: string; name: string },
+  text: string,
+  attachment?: Attachment
+) {
+  const ref = await addDoc(collection(db, "rooms", roomId, "messages"), {
+    text,
+    ...(attachment ? { attachment } : {}),
+    uid: by.uid,
+    name: by.name,
+    createdAt: serverTimestamp(),
+  });
+  // push agli altri membri: se non parte, il messaggio c'è comunque
+  notifyRoom(roomId, { type: "message", messageId: ref.id }).catch(() => {});
+}
+
+export async function editMessage(roomId: string, id: string, text: string) {
+  await updateDoc(doc(db, "rooms", roomId, "messages", id), { text, editedAt: serverTimestamp() });
+}
+
+// l'autore elimina i propri messaggi, i moderatori quelli di tutti (anche l'allegato)
+export async function deleteMessage(roomId: string, byUid: string, m: Msg) {
+  if (m.attachment) {
+    await removeAttachment(m.attachment.path).catch(() => {});
+  }
+  await updateDoc(doc(db, "rooms", roomId, "messages", m.id), {
+    text: "",
+    attachment: deleteField(),
+    deleted: true,
+    deletedAt: serverTimestamp(),
+    deletedByUid: byUid,
+  });
+}
+
+export async function countMessagesSince(roomId: string, since: Date) {
+  const agg = await getCountFromServer(query(collection(db, "rooms", roomId, "messages"), where("createdAt", ">", since)));
+  return agg.data().count;
+}
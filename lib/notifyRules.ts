@@ -0,0 +1,110 @@
+// Regole delle notifiche push, senza Firebase: le usano il server (lib/notifyServer.ts)
+// e la pagina delle preferenze, e si provano in locale con dati finti.
+//
+// users/{uid}/notifyPrefs/{roomId} → NotifyPrefs (mancante = DEFAULT_PREFS)
+
+export type NotifyType = "message" | "voice" | "reminder";
+
+export type NotifyPrefs = {
+  messages: boolean;
+  voice: boolean;
+  events: boolean; // promemoria prima degli eventi del calendario
+  reminderMinutes: number; // quanto prima dell'evento
+  mutedUntil: Date | null; // room silenziata fino a
+};
+
+export const DEFAULT_PREFS: NotifyPrefs = {
+  messages: true,
+  voice: true,
+  events: true,
+  reminderMinutes: 60,
+  mutedUntil: null,
+};
+
+export const REMINDER_OPTIONS = [15, 60, 180, 24 * 60];
+
+// il cron dei promemoria recupera quelli scaduti da poco (giro saltato o in ritardo)
+export const REMINDER_CATCH_UP_MS = 30 * 60 * 1000;
+
+export type PushPayload = {
+  title: string;
+  body: string;
+  url: string;
+  tag: string; // notifiche con lo stesso tag si sostituiscono
+};
+
+export function isMuted(prefs: NotifyPrefs, now: number) {
+  return prefs.mutedUntil !== null && prefs.mutedUntil.getTime() > now;
+}
+
+export function wantsNotification(prefs: NotifyPrefs, type: NotifyType, now: number) {
+  if (isMuted(prefs, now)) return false;
+  if (type === "message") return prefs.messages;
+  if (type === "voice") return prefs.voice;
+  return prefs.events && prefs.reminderMinutes > 0;
+}
+
+// destinatari: tutti tranne chi ha scatenato la notifica e chi l'ha spenta
+export function recipientsFor(
+  uids: string[],
+  prefsByUid: Map<string, NotifyPrefs>,
+  type: NotifyType,
+  exceptUid: string | null,
+  now: number
+) {
+  return uids.filter((uid) => uid !== exceptUid && wantsNotification(prefsByUid.get(uid) ?? DEFAULT_PREFS, type, now));
+}
+
+function clip(text: string, max = 120) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+export function messagePayload(
+  room: { id: string; name: string },
+  msg: { id: string; name: string; text: string; attachmentName?: string }
+): PushPayload {
+  const body = msg.text.trim() || (msg.attachmentName ? `📎 ${msg.attachmentName}` : "nuovo messaggio");
+  return {
+    title: room.name,
+    body: clip(`${msg.name}: ${body}`),
+    url: `/room/${room.id}`,
+    tag: `room-${room.id}-chat`,
+  };
+}
+
+export function voicePayload(room: { id: string; name: string }, byName: string): PushPayload {
+  return {
+    title: room.name,
+    body: `🎧 ${byName} ha aperto il vocale`,
+    url: `/room/${room.id}`,
+    tag: `room-${room.id}-voice`,
+  };
+}
+
+export function reminderPayload(
+  room: { id: string; name: string },
+  ev: { id: string; title: string; place: string; start: Date; allDay: boolean; timeZone: string }
+): PushPayload {
+  const when = ev.allDay
+    ? ev.start.toLocaleDateString("it-IT", { weekday: "long", day: "numeric", month: "long", timeZone: ev.timeZone })
+    : ev.start.toLocaleString("it-IT", {
+        weekday: "long",
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZone: ev.timeZone,
+      });
+  return {
+    title: `📅 ${ev.title || "Evento"}`,
+    body: clip(`${room.name} • ${when}${ev.place ? ` • ${ev.place}` : ""}`),
+    url: `/room/${room.id}`,
+    tag: `event-${ev.id}`,
+  };
+}
+
+// promemoria da mandare adesso: scattati (start - anticipo) e non più vecchi di REMINDER_CATCH_UP_MS,
+// a evento non ancora iniziato. Il server ricorda quelli già mandati.
+export function reminderDue(start: Date, prefs: NotifyPrefs, now: number) {
+  if (!wantsNotification(prefs, "reminder", now)) return false;
+  const at = start.getTime() - prefs.reminderMinutes * 60_000;
+  return at <= now && now - at < REMINDER_CATCH_UP_MS && start.getTime() > now;
+}
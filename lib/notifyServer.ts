@@ -0,0 +1,239 @@
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { ApiError, type ApiUser } from "./apiServer";
+import { validZone } from "./calendar";
+import { adminDb, adminMessaging } from "./firebaseAdmin";
+import {
+  DEFAULT_PREFS,
+  messagePayload,
+  recipientsFor,
+  REMINDER_CATCH_UP_MS,
+  REMINDER_OPTIONS,
+  reminderDue,
+  reminderPayload,
+  voicePayload,
+  type NotifyPrefs,
+  type PushPayload,
+} from "./notifyRules";
+import { expandOccurrences, type Recurrence } from "./recurrence";
+
+// Invio delle notifiche push (Firebase Cloud Messaging), lato server.
+// users/{uid}/pushTokens/{token}: dispositivi con le notifiche attive (li scrive lib/push.ts)
+// Messaggi e vocale: li segnala chi scrive / apre la chiamata (app/api/rooms/[roomId]/notify),
+// il server controlla che il doc esista e sia suo, e lo marca notifiedAt per non mandarlo due volte.
+// Promemoria: app/api/cron/reminders, i già mandati in rooms/{roomId}/reminders/{evento}_{data}_{uid}.
+// Con NOTIFY_DRY_RUN=1 non si manda niente: i payload finiscono nel log (sviluppo, emulatori).
+
+const INVALID_TOKEN_CODES = ["messaging/registration-token-not-registered", "messaging/invalid-registration-token"];
+
+function toPrefs(data: DocumentData | undefined): NotifyPrefs {
+  if (!data) return DEFAULT_PREFS;
+  const minutes = Number(data.reminderMinutes);
+  return {
+    messages: data.messages !== false,
+    voice: data.voice !== false,
+    events: data.events !== false,
+    reminderMinutes: Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_PREFS.reminderMinutes,
+    mutedUntil: data.mutedUntil instanceof Timestamp ? data.mutedUntil.toDate() : null,
+  };
+}
+
+async function loadPrefs(roomId: string, uids: string[]) {
+  const prefs = new Map<string, NotifyPrefs>();
+  if (uids.length === 0) return prefs;
+  const snaps = await adminDb.getAll(
+    ...uids.map((uid) => adminDb.collection("users").doc(uid).collection("notifyPrefs").doc(roomId))
+  );
+  snaps.forEach((s, i) => prefs.set(uids[i], toPrefs(s.data())));
+  return prefs;
+}
+
+async function memberUids(roomId: string) {
+  const snap = await adminDb.collection("rooms").doc(roomId).collection("members").get();
+  return snap.docs.map((d) => d.id);
+}
+
+// tutti i dispositivi dei destinatari; i token scaduti si eliminano
+export async function sendPush(uids: string[], payload: PushPayload) {
+  const tokenSnaps = await Promise.all(
+    uids.map((uid) => adminDb.collection("users").doc(uid).collection("pushTokens").get())
+  );
+  const tokens = tokenSnaps.flatMap((s) => s.docs.map((d) => ({ token: d.id, ref: d.ref })));
+  if (tokens.length === 0) return 0;
+
+  if (process.env.NOTIFY_DRY_RUN === "1") {
+    console.info("[notify]", { to: uids, devices: tokens.length, ...payload });
+    return tokens.length;
+  }
+
+  let sent = 0;
+  // sendEachForMulticast accetta al massimo 500 token
+  for (let i = 0; i < tokens.length; i += 500) {
+    const chunk = tokens.slice(i, i + 500);
+    // solo "data": la notifica la mostra public/sw.js (che sa se la room è già aperta)
+    const res = await adminMessaging.sendEachForMulticast({
+      tokens: chunk.map((t) => t.token),
+      data: payload,
+      webpush: { headers: { Urgency: "high", TTL: "86400" } },
+    });
+    sent += res.successCount;
+    await Promise.all(
+      res.responses.map((r, j) =>
+        r.error && INVALID_TOKEN_CODES.includes(r.error.code) ? chunk[j].ref.delete().catch(() => {}) : null
+      )
+    );
+  }
+  return sent;
+}
+
+async function requireMember(user: ApiUser, roomId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const [room, me] = await Promise.all([roomRef.get(), roomRef.collection("members").doc(user.uid).get()]);
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  if (!me.exists) throw new ApiError(403, "Non fai parte di questa room.");
+  return { id: roomId, name: (room.get("name") as string | undefined) ?? "Room", archived: room.get("archived") === true };
+}
+
+// marca il doc come notificato; null se lo era già
+async function claim(ref: DocumentReference, ownerField: string, uid: string) {
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new ApiError(404, "Non trovato.");
+    if (snap.get(ownerField) !== uid) throw new ApiError(403, "Puoi segnalare solo i tuoi messaggi e le tue chiamate.");
+    if (snap.get("notifiedAt")) return null;
+    tx.update(ref, { notifiedAt: FieldValue.serverTimestamp() });
+    return snap;
+  });
+}
+
+export async function notifyMessage(user: ApiUser, roomId: string, messageId: string) {
+  const room = await requireMember(user, roomId);
+  if (room.archived) return 0;
+
+  const msg = await claim(adminDb.collection("rooms").doc(roomId).collection("messages").doc(messageId), "uid", user.uid);
+  if (!msg || msg.get("deleted") === true) return 0;
+
+  const uids = await memberUids(roomId);
+  const to = recipientsFor(uids, await loadPrefs(roomId, uids), "message", user.uid, Date.now());
+  return sendPush(
+    to,
+    messagePayload(room, {
+      id: messageId,
+      name: msg.get("name") ?? user.name,
+      text: msg.get("text") ?? "",
+      attachmentName: msg.get("attachment.name"),
+    })
+  );
+}
+
+export async function notifyVoice(user: ApiUser, roomId: string, callId: string) {
+  const room = await requireMember(user, roomId);
+  if (room.archived) return 0;
+
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const current = await roomRef.collection("voice").doc("current").get();
+  if (current.get("callId") !== callId) return 0;
+
+  const call = await claim(roomRef.collection("calls").doc(callId), "createdByUid", user.uid);
+  if (!call || call.get("status") === "ended") return 0;
+
+  const uids = await memberUids(roomId);
+  const to = recipientsFor(uids, await loadPrefs(roomId, uids), "voice", user.uid, Date.now());
+  return sendPush(to, voicePayload(room, user.name));
+}
+
+// -------- Promemoria degli eventi --------
+
+type ReminderEvent = {
+  id: string;
+  roomId: string;
+  title: string;
+  place: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone: string;
+  recurrence: Recurrence | null;
+};
+
+function toReminderEvent(d: QueryDocumentSnapshot): ReminderEvent | null {
+  const data = d.data();
+  const roomId = d.ref.parent.parent?.id;
+  if (!roomId || data.cancelled === true || !(data.start instanceof Timestamp)) return null;
+  const start = data.start.toDate();
+  const r = data.recurrence;
+  return {
+    id: d.id,
+    roomId,
+    title: data.title ?? "",
+    place: data.place ?? "",
+    start,
+    end: data.end instanceof Timestamp ? data.end.toDate() : new Date(start.getTime() + 60 * 60 * 1000),
+    allDay: data.allDay === true,
+    timeZone: typeof data.timeZone === "string" && validZone(data.timeZone) ? data.timeZone : "Europe/Rome",
+    recurrence:
+      r && (r.freq === "weekly" || r.freq === "biweekly" || r.freq === "monthly")
+        ? {
+            freq: r.freq,
+            until: r.until instanceof Timestamp ? r.until.toDate() : null,
+            exceptions: Array.isArray(r.exceptions) ? r.exceptions : [],
+          }
+        : null,
+  };
+}
+
+// chiamato dal cron ogni pochi minuti: manda i promemoria scattati da poco (uno per persona e data)
+export async function sendDueReminders(now = Date.now()) {
+  const from = new Date(now);
+  const to = new Date(now + Math.max(...REMINDER_OPTIONS) * 60_000 + REMINDER_CATCH_UP_MS);
+
+  // eventi singoli nella finestra + tutti i ricorrenti (l'inizio è la prima data, magari passata)
+  const [single, recurring] = await Promise.all([
+    adminDb.collectionGroup("events").where("start", ">=", Timestamp.fromDate(from)).where("start", "<", Timestamp.fromDate(to)).get(),
+    adminDb.collectionGroup("events").where("recurrence.freq", "in", ["weekly", "biweekly", "monthly"]).get(),
+  ]);
+
+  const byRoom = new Map<string, (ReminderEvent & { occurrence: string })[]>();
+  const seen = new Set<string>();
+  [...single.docs, ...recurring.docs].forEach((d) => {
+    if (seen.has(d.ref.path)) return;
+    seen.add(d.ref.path);
+    const ev = toReminderEvent(d);
+    if (!ev) return;
+    const list = byRoom.get(ev.roomId) ?? [];
+    // ore e date nel fuso dell'evento: il server gira in UTC
+    list.push(...expandOccurrences(ev, from, to, ev.timeZone).filter((o) => o.start > from));
+    byRoom.set(ev.roomId, list);
+  });
+
+  let sent = 0;
+  for (const [roomId, occurrences] of byRoom) {
+    if (occurrences.length === 0) continue;
+    const roomRef = adminDb.collection("rooms").doc(roomId);
+    const room = await roomRef.get();
+    if (!room.exists || room.get("archived") === true) continue;
+    const roomInfo = { id: roomId, name: (room.get("name") as string | undefined) ?? "Room" };
+
+    const uids = await memberUids(roomId);
+    const prefs = await loadPrefs(roomId, uids);
+
+    for (const occ of occurrences) {
+      for (const uid of uids) {
+        if (!reminderDue(occ.start, prefs.get(uid) ?? DEFAULT_PREFS, now)) continue;
+        // create() fallisce se esiste già: un solo promemoria anche con due cron sovrapposti
+        const mark = roomRef.collection("reminders").doc(`${occ.id}_${occ.occurrence}_${uid}`);
+        const fresh = await mark
+          .create({ uid, eventId: occ.id, occurrence: occ.occurrence, sentAt: FieldValue.serverTimestamp() })
+          .then(() => true)
+          .catch(() => false);
+        if (fresh) sent += await sendPush([uid], reminderPayload(roomInfo, occ));
+      }
+    }
+  }
+  return sent;
+}
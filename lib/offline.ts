@@ -0,0 +1,28 @@
+"use client";
+
+// App offline: public/sw.js tiene in cache le pagine, Firestore (lib/firebase.ts) i dati già visti
+// e le scritture fatte senza rete, che partono appena la rete torna.
+
+let registration: Promise<ServiceWorkerRegistration> | null = null;
+
+// una sola registrazione, la usano anche le notifiche push (lib/push.ts)
+export function registerServiceWorker() {
+  if (!registration) {
+    // in sviluppo il service worker c'è (push) ma non mette in cache niente
+    const url = process.env.NODE_ENV === "production" ? "/sw.js" : "/sw.js?cache=0";
+    registration = navigator.serviceWorker.register(url);
+    registration.catch(() => {
+      registration = null;
+    });
+  }
+  return registration;
+}
+
+export function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { collection, deleteDoc, doc, onSnapshot, serverTimestamp, setDoc } from "firebase/firestore";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { isFresh } from "./presenceRules";
+
+// Presenza online dei membri (rooms/{roomId}/presence/{uid}): chi ha la room aperta
+// riscrive lastSeenAt ogni HEARTBEAT_MS. Un doc più vecchio di STALE_MS vale "offline"
+// (tempi in lib/presenceRules.ts, condivisi col server), anche se la pagina si è chiusa
+// senza avvisare (mobile, batteria, rete).
+// Stesso meccanismo per chi è in vocale: lib/voice.ts.
+
+export type Presence = {
+  uid: string;
+  name: string;
+  online: boolean;
+  lastSeenAt: Date | null;
+};
+
+export function isOnline(p: Presence, now: number) {
+  return p.online && isFresh(p.lastSeenAt, now);
+}
+
+const presenceConverter = readConverter<Presence>((d) => {
+  const data = d.data({ serverTimestamps: "estimate" });
+  return {
+    uid: d.id,
+    name: data.name ?? "utente",
+    online: data.online === true,
+    lastSeenAt: toDate(data.lastSeenAt),
+  };
+});
+
+function presenceRef(roomId: string, uid: string) {
+  return doc(db, "rooms", roomId, "presence", uid);
+}
+
+export function subscribePresence(roomId: string, onPresence: (list: Presence[]) => void) {
+  return onSnapshot(
+    collection(db, "rooms", roomId, "presence").withConverter(presenceConverter),
+    (snap) => onPresence(snap.docs.map((d) => d.data())),
+    () => onPresence([])
+  );
+}
+
+// heartbeat: la prima chiamata crea il doc, le altre aggiornano lastSeenAt
+export async function markOnline(roomId: string, by: { uid: string; name: string }) {
+  await setDoc(
+    presenceRef(roomId, by.uid),
+    { uid: by.uid, name: by.name, online: true, lastSeenAt: serverTimestamp() },
+    { merge: true }
+  );
+}
+
+// uscita dalla pagina (best effort: se non arriva ci pensa STALE_MS)
+export async function markOffline(roomId: string, uid: string) {
+  await setDoc(presenceRef(roomId, uid), { online: false, lastSeenAt: serverTimestamp() }, { merge: true });
+}
+
+export async function clearPresence(roomId: string, uid: string) {
+  await deleteDoc(presenceRef(roomId, uid));
+}
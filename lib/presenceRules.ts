@@ -0,0 +1,13 @@
+// Tempi della presenza (online e vocale), senza Firebase: li usano il client (lib/presence.ts,
+// lib/voice.ts) e il server (lib/voiceServer.ts), così "fantasma" vuol dire la stessa cosa ovunque.
+
+// ogni quanto chi ha la room aperta (o è in vocale) riscrive lastSeenAt
+export const HEARTBEAT_MS = 20_000;
+// un doc fermo da più di così vale "offline"; stesso valore in firestore.rules
+// (voiceMembers vecchi eliminabili da tutti i membri)
+export const STALE_MS = 60_000;
+
+// heartbeat recente: null (serverTimestamp appena scritto) conta come fresco
+export function isFresh(lastSeenAt: Date | null, now: number) {
+  return !lastSeenAt || now - lastSeenAt.getTime() < STALE_MS;
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { deleteDoc, doc, onSnapshot, serverTimestamp, setDoc, Timestamp } from "firebase/firestore";
+import { deleteToken, getMessaging, getToken, isSupported } from "firebase/messaging";
+import { readConverter } from "./converters";
+import { app, db } from "./firebase";
+import { DEFAULT_PREFS, type NotifyPrefs } from "./notifyRules";
+import { registerServiceWorker } from "./offline";
+
+// Notifiche push sul dispositivo (Firebase Cloud Messaging + public/sw.js)
+// - users/{uid}/pushTokens/{token}: un doc per dispositivo con le notifiche attive
+// - users/{uid}/notifyPrefs/{roomId}: cosa notificare per ogni room (vedi lib/notifyRules.ts)
+// Serve NEXT_PUBLIC_FIREBASE_VAPID_KEY (Console Firebase → Cloud Messaging → certificati push web).
+
+const TOKEN_KEY = "scouthub.pushToken.v1";
+const VAPID_KEY = process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY;
+
+export async function pushSupported() {
+  if (!VAPID_KEY || typeof window === "undefined") return false;
+  if (!("serviceWorker" in navigator) || !("Notification" in window)) return false;
+  return isSupported().catch(() => false);
+}
+
+// token di questo dispositivo, se le notifiche sono attive
+export function devicePushToken() {
+  if (typeof window === "undefined" || Notification.permission !== "granted") return null;
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+async function currentToken() {
+  const registration = await registerServiceWorker();
+  return getToken(getMessaging(app), { vapidKey: VAPID_KEY, serviceWorkerRegistration: registration });
+}
+
+async function saveToken(uid: string, token: string) {
+  const previous = localStorage.getItem(TOKEN_KEY);
+  if (previous && previous !== token) {
+    await deleteDoc(doc(db, "users", uid, "pushTokens", previous)).catch(() => {});
+  }
+  await setDoc(doc(db, "users", uid, "pushTokens", token), {
+    createdAt: serverTimestamp(),
+    userAgent: navigator.userAgent.slice(0, 200),
+  });
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+// chiede il permesso e registra il dispositivo
+export async function enablePush(uid: string) {
+  if (!(await pushSupported())) throw new Error("Questo browser non supporta le notifiche.");
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifiche bloccate: abilitale dalle impostazioni del browser.");
+  await saveToken(uid, await currentToken());
+}
+
+// all'apertura dell'app: FCM può cambiare il token
+export async function refreshPushToken(uid: string) {
+  if (!devicePushToken() || !(await pushSupported())) return;
+  const token = await currentToken();
+  if (token !== localStorage.getItem(TOKEN_KEY)) await saveToken(uid, token);
+}
+
+export async function disablePush(uid: string) {
+  const token = localStorage.getItem(TOKEN_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+  if (token) await deleteDoc(doc(db, "users", uid, "pushTokens", token)).catch(() => {});
+  await deleteToken(getMessaging(app)).catch(() => {});
+}
+
+// -------- Preferenze per room --------
+
+const prefsConverter = readConverter<NotifyPrefs>((d) => {
+  const data = d.data();
+  return {
+    messages: data.messages !== false,
+    voice: data.voice !== false,
+    events: data.events !== false,
+    reminderMinutes: typeof data.reminderMinutes === "number" ? data.reminderMinutes : DEFAULT_PREFS.reminderMinutes,
+    mutedUntil: data.mutedUntil instanceof Timestamp ? data.mutedUntil.toDate() : null,
+  };
+});
+
+export function subscribeNotifyPrefs(uid: string, roomId: string, onPrefs: (prefs: NotifyPrefs) => void) {
+  return onSnapshot(
+    doc(db, "users", uid, "notifyPrefs", roomId).withConverter(prefsConverter),
+    (snap) => onPrefs(snap.exists() ? snap.data() : DEFAULT_PREFS),
+    () => onPrefs(DEFAULT_PREFS)
+  );
+}
+
+export async function saveNotifyPrefs(uid: string, roomId: string, patch: Partial<NotifyPrefs>) {
+  await setDoc(doc(db, "users", uid, "notifyPrefs", roomId), { ...patch, updatedAt: serverTimestamp() }, { merge: true });
+}
@@ -0,0 +1,82 @@
+import { addDays, partsInZone, toDateInput, zonedToDate } from "./calendar";
+
+// Ricorrenze semplici per le riunioni: settimanale, ogni due settimane, mensile (stesso giorno del mese).
+// Le eccezioni sono le date (YYYY-MM-DD) delle occorrenze saltate.
+// Le date si contano nel fuso locale (il browser); il server, che gira in UTC, passa il fuso dell'evento.
+
+export type RecurrenceFreq = "weekly" | "biweekly" | "monthly";
+
+export type Recurrence = {
+  freq: RecurrenceFreq;
+  until: Date | null; // ultimo giorno incluso
+  exceptions: string[];
+};
+
+export const FREQ_LABEL: Record<RecurrenceFreq, string> = {
+  weekly: "ogni settimana",
+  biweekly: "ogni 2 settimane",
+  monthly: "ogni mese",
+};
+
+// massimo di occorrenze generate per evento (10 anni di riunioni settimanali)
+const MAX_OCCURRENCES = 520;
+
+export function occurrenceKey(d: Date, timeZone?: string) {
+  if (!timeZone) return toDateInput(d);
+  const p = partsInZone(d, timeZone);
+  return `${p.y}-${String(p.mo).padStart(2, "0")}-${String(p.d).padStart(2, "0")}`;
+}
+
+// i-esima occorrenza; null se quel mese non ha il giorno (es. 31)
+function nthStart(start: Date, freq: RecurrenceFreq, i: number) {
+  if (freq === "weekly") return addDays(start, 7 * i);
+  if (freq === "biweekly") return addDays(start, 14 * i);
+  const d = new Date(start.getFullYear(), start.getMonth() + i, start.getDate(), start.getHours(), start.getMinutes());
+  return d.getDate() === start.getDate() ? d : null;
+}
+
+// come nthStart, con l'ora da orologio di timeZone (stessa ora anche dopo il cambio dell'ora legale)
+function nthStartInZone(start: Date, freq: RecurrenceFreq, i: number, timeZone: string) {
+  const p = partsInZone(start, timeZone);
+  const days = freq === "weekly" ? 7 * i : freq === "biweekly" ? 14 * i : 0;
+  const day = new Date(Date.UTC(p.y, p.mo - 1 + (freq === "monthly" ? i : 0), p.d + days));
+  if (freq === "monthly" && day.getUTCDate() !== p.d) return null;
+  return zonedToDate({ ...p, y: day.getUTCFullYear(), mo: day.getUTCMonth() + 1, d: day.getUTCDate() }, timeZone);
+}
+
+type Expandable = { start: Date; end: Date; recurrence?: Recurrence | null };
+
+// Occorrenze che toccano [from, to), ognuna con la propria data chiave.
+// timeZone: date e ore contate in quel fuso invece che in quello locale
+export function expandOccurrences<T extends Expandable>(ev: T, from: Date, to: Date, timeZone?: string) {
+  const out: (T & { occurrence: string })[] = [];
+  const rec = ev.recurrence;
+
+  if (!rec) {
+    if (ev.start < to && ev.end > from) out.push({ ...ev, occurrence: occurrenceKey(ev.start, timeZone) });
+    return out;
+  }
+
+  const duration = ev.end.getTime() - ev.start.getTime();
+  const lastKey = rec.until ? occurrenceKey(rec.until, timeZone) : null;
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const start = timeZone ? nthStartInZone(ev.start, rec.freq, i, timeZone) : nthStart(ev.start, rec.freq, i);
+    if (!start) continue;
+    const key = occurrenceKey(start, timeZone);
+    if (start >= to || (lastKey && key > lastKey)) break;
+
+    const end = new Date(start.getTime() + duration);
+    if (end <= from) continue;
+
+    if (rec.exceptions.includes(key)) continue;
+    out.push({ ...ev, start, end, occurrence: key });
+  }
+  return out;
+}
+
+export function expandAll<T extends Expandable>(events: T[], from: Date, to: Date) {
+  return events
+    .flatMap((ev) => expandOccurrences(ev, from, to))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
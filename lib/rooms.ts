@@ -0,0 +1,263 @@
+"use client";
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { removeMember } from "./members";
+import { forgetUserRoom } from "./userRooms";
+import type { Invite } from "./roomsApi";
+
+// Room (rooms/{roomId}) con inviti, ban e richieste di ingresso.
+// Creazione e ingresso col codice passano dal server (lib/roomsApi.ts), qui il resto.
+
+export type RoomData = {
+  name: string;
+  adminUid: string; // owner della room (trasferibile)
+  joinCode: string; // codice principale: lo cambia solo il server (app/api/rooms/[roomId]/code)
+  joinDisabled?: boolean;
+  requireApproval?: boolean; // i nuovi arrivati aspettano un admin (joinRequests)
+
+  defaultCanChat?: boolean;
+  defaultCanCall?: boolean;
+  lockChat?: boolean;
+  lockCalls?: boolean;
+  archived?: boolean; // sola lettura: chat, vocale e calendario fermi (solo l'owner la riapre)
+};
+
+// campi che owner/admin (e per i blocchi i moderatori) cambiano dal client
+export type RoomSettings = Partial<
+  Pick<RoomData, "name" | "requireApproval" | "joinDisabled" | "defaultCanChat" | "defaultCanCall" | "lockChat" | "lockCalls">
+>;
+
+// richiesta di ingresso nelle room con approvazione (la crea app/api/join)
+export type JoinRequest = {
+  uid: string;
+  name: string;
+  status: "pending" | "rejected";
+  requestedAt: Date | null;
+  invite?: string;
+  inviteLabel?: string;
+};
+
+export type Ban = {
+  uid: string;
+  name: string;
+  bannedAt: Date | null;
+  bannedByUid?: string;
+};
+
+const inviteConverter = readConverter<Invite>((d) => {
+  const data = d.data();
+  return {
+    code: d.id,
+    label: data.label ?? "Invito",
+    main: data.main === true,
+    expiresAt: toDate(data.expiresAt),
+    maxUses: typeof data.maxUses === "number" ? data.maxUses : null,
+    uses: data.uses ?? 0,
+    revoked: data.revoked === true,
+  };
+});
+
+const roomConverter = readConverter<RoomData>((d) => {
+  const data = d.data();
+  return {
+    name: data.name ?? "Room",
+    adminUid: data.adminUid,
+    joinCode: data.joinCode,
+    joinDisabled: data.joinDisabled,
+    requireApproval: data.requireApproval,
+    defaultCanChat: data.defaultCanChat,
+    defaultCanCall: data.defaultCanCall,
+    lockChat: data.lockChat,
+    lockCalls: data.lockCalls,
+    archived: data.archived === true,
+  };
+});
+
+const joinRequestConverter = readConverter<JoinRequest>((d) => {
+  const data = d.data();
+  return {
+    uid: d.id,
+    name: data.name ?? "utente",
+    status: data.status === "rejected" ? "rejected" : "pending",
+    requestedAt: toDate(data.requestedAt),
+    invite: data.invite,
+    inviteLabel: data.inviteLabel,
+  };
+});
+
+const banConverter = readConverter<Ban>((d) => {
+  const data = d.data();
+  return { uid: d.id, name: data.name ?? "utente", bannedAt: toDate(data.bannedAt), bannedByUid: data.bannedByUid };
+});
+
+function roomRef(roomId: string) {
+  return doc(db, "rooms", roomId).withConverter(roomConverter);
+}
+
+// null se non esiste; chi non è membro riceve permission-denied
+export async function getRoom(roomId: string) {
+  const snap = await getDoc(roomRef(roomId));
+  return snap.exists() ? snap.data() : null;
+}
+
+export function subscribeRoom(roomId: string, onRoom: (room: RoomData | null) => void) {
+  return onSnapshot(
+    roomRef(roomId),
+    (snap) => onRoom(snap.exists() ? snap.data() : null),
+    () => onRoom(null)
+  );
+}
+
+// room create prima delle impostazioni: i default mancanti
+export function missingRoomDefaults(room: RoomData): RoomSettings {
+  const patch: RoomSettings = {};
+  if (typeof room.defaultCanChat !== "boolean") patch.defaultCanChat = true;
+  if (typeof room.defaultCanCall !== "boolean") patch.defaultCanCall = true;
+  if (typeof room.lockChat !== "boolean") patch.lockChat = false;
+  if (typeof room.lockCalls !== "boolean") patch.lockCalls = false;
+  return patch;
+}
+
+export async function updateRoom(roomId: string, patch: RoomSettings) {
+  await updateDoc(doc(db, "rooms", roomId), patch);
+}
+
+// solo owner (l'eliminazione definitiva passa dal server: lib/roomsApi.ts)
+export async function setRoomArchived(roomId: string, archived: boolean) {
+  await updateDoc(doc(db, "rooms", roomId), { archived, archivedAt: archived ? serverTimestamp() : null });
+}
+
+// uscita volontaria: l'owner deve prima passare la room a un altro membro o eliminarla.
+// Room sparita o non più leggibile: resta solo da toglierla dall'elenco
+export async function leaveRoom(roomId: string, uid: string) {
+  const room = await getRoom(roomId).catch(() => null);
+  if (room?.adminUid === uid) {
+    throw new Error("Sei l'owner: passa la room a un altro membro oppure eliminala.");
+  }
+  if (room) await removeMember(roomId, uid);
+  else await forgetUserRoom(uid, roomId);
+}
+
+// inviti (solo admin), i più recenti in alto; si creano e revocano dal server (lib/roomsApi.ts)
+export function subscribeInvites(roomId: string, onInvites: (list: Invite[]) => void) {
+  const q = query(collection(db, "rooms", roomId, "invites").withConverter(inviteConverter), orderBy("createdAt", "desc"));
+  return onSnapshot(
+    q,
+    (snap) => onInvites(snap.docs.map((d) => d.data())),
+    () => onInvites([])
+  );
+}
+
+// -------- Ban --------
+
+// offline e mai letto prima: non si sa, si lascia entrare (il listener del ban lo rileva appena c'è rete)
+export async function isBanned(roomId: string, uid: string) {
+  try {
+    return (await getDoc(doc(db, "rooms", roomId, "bans", uid))).exists();
+  } catch (e) {
+    if ((e as { code?: string }).code === "unavailable") return false;
+    throw e;
+  }
+}
+
+export function subscribeMyBan(roomId: string, uid: string, onBanned: () => void) {
+  return onSnapshot(
+    doc(db, "rooms", roomId, "bans", uid),
+    (snap) => {
+      if (snap.exists()) onBanned();
+    },
+    () => {}
+  );
+}
+
+export function subscribeBans(roomId: string, onBans: (list: Ban[]) => void) {
+  return onSnapshot(
+    collection(db, "rooms", roomId, "bans").withConverter(banConverter),
+    (snap) => onBans(snap.docs.map((d) => d.data()).sort((a, b) => a.name.localeCompare(b.name))),
+    () => onBans([])
+  );
+}
+
+export async function banMember(roomId: string, byUid: string, m: { uid: string; name: string }) {
+  await setDoc(doc(db, "rooms", roomId, "bans", m.uid), {
+    uid: m.uid,
+    name: m.name,
+    bannedAt: serverTimestamp(),
+    bannedByUid: byUid,
+  });
+  await removeMember(roomId, m.uid);
+}
+
+export async function unbanMember(roomId: string, uid: string) {
+  await deleteDoc(doc(db, "rooms", roomId, "bans", uid));
+}
+
+// -------- Richieste di ingresso --------
+
+export async function getMyJoinRequest(roomId: string, uid: string) {
+  const snap = await getDoc(doc(db, "rooms", roomId, "joinRequests", uid).withConverter(joinRequestConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+export function subscribeMyJoinRequest(roomId: string, uid: string, onRequest: (r: JoinRequest | null) => void) {
+  return onSnapshot(
+    doc(db, "rooms", roomId, "joinRequests", uid).withConverter(joinRequestConverter),
+    (snap) => onRequest(snap.exists() ? snap.data() : null)
+  );
+}
+
+// in attesa, dalla più vecchia
+export function subscribeJoinRequests(roomId: string, onRequests: (list: JoinRequest[]) => void) {
+  const q = query(
+    collection(db, "rooms", roomId, "joinRequests").withConverter(joinRequestConverter),
+    where("status", "==", "pending")
+  );
+  return onSnapshot(
+    q,
+    (snap) =>
+      onRequests(
+        snap.docs.map((d) => d.data()).sort((a, b) => (a.requestedAt?.getTime() ?? 0) - (b.requestedAt?.getTime() ?? 0))
+      ),
+    () => onRequests([])
+  );
+}
+
+// approvazione: member doc con i default della room, la richiesta si cancella
+export async function approveJoinRequest(roomId: string, room: RoomData, r: JoinRequest) {
+  const batch = writeBatch(db);
+  batch.set(doc(db, "rooms", roomId, "members", r.uid), {
+    uid: r.uid,
+    name: r.name,
+    role: "member",
+    canChat: room.defaultCanChat ?? true,
+    canCall: room.defaultCanCall ?? true,
+    joinedAt: serverTimestamp(),
+    ...(r.invite ? { invite: r.invite, inviteLabel: r.inviteLabel ?? "" } : {}),
+  });
+  batch.delete(doc(db, "rooms", roomId, "joinRequests", r.uid));
+  await batch.commit();
+}
+
+// il rifiuto resta: con lo stesso codice non si può richiedere di nuovo
+export async function rejectJoinRequest(roomId: string, byUid: string, uid: string) {
+  await updateDoc(doc(db, "rooms", roomId, "joinRequests", uid), {
+    status: "rejected",
+    decidedByUid: byUid,
+    decidedAt: serverTimestamp(),
+  });
+}
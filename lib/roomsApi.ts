@@ -0,0 +1,98 @@
+"use client";
+
+import { auth } from "./firebase";
+import type { IceConfig } from "./iceServer";
+
+// Client dei route handler in app/api (creazione ed eliminazione room, ingresso con codice, inviti, eventi, notifiche, vocale, ICE)
+
+export type RoomRef = { roomId: string; name: string; joinCode: string };
+
+// pending: la room richiede l'approvazione di un admin
+export type JoinResult = RoomRef & { pending: boolean };
+
+// rooms/{roomId}/invites/{code} (lo scrive solo il server, lo leggono gli admin)
+export type Invite = {
+  code: string;
+  label: string;
+  main: boolean;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+};
+
+export type InviteOptions = { label?: string; expiresAt: Date | null; maxUses: number | null };
+
+async function request<T>(method: "GET" | "POST" | "DELETE", path: string, body?: unknown): Promise<T> {
+  const u = auth.currentUser;
+  if (!u) throw new Error("Devi fare il login.");
+
+  const res = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${await u.getIdToken()}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Errore del server.");
+  return data as T;
+}
+
+export function createRoom(name: string) {
+  return request<RoomRef>("POST", "/api/rooms", { name });
+}
+
+export function joinWithCode(code: string) {
+  return request<JoinResult>("POST", "/api/join", { code });
+}
+
+function inviteBody(opts: InviteOptions) {
+  return { label: opts.label, expiresAt: opts.expiresAt?.toISOString() ?? null, maxUses: opts.maxUses };
+}
+
+export function createInvite(roomId: string, opts: InviteOptions) {
+  return request<{ code: string }>("POST", `/api/rooms/${roomId}/invites`, inviteBody(opts));
+}
+
+export function revokeInvite(roomId: string, code: string) {
+  return request<{ ok: true }>("DELETE", `/api/rooms/${roomId}/invites/${code}`);
+}
+
+export function regenerateJoinCode(roomId: string, opts: InviteOptions) {
+  return request<{ code: string }>("POST", `/api/rooms/${roomId}/code`, inviteBody(opts));
+}
+
+// per sempre, con tutto il contenuto (solo owner)
+export function deleteRoom(roomId: string) {
+  return request<{ ok: true }>("DELETE", `/api/rooms/${roomId}`);
+}
+
+// evento del calendario con risposte, storico e presenze (admin o chi l'ha creato)
+export function deleteEvent(roomId: string, eventId: string) {
+  return request<{ ok: true }>("DELETE", `/api/rooms/${roomId}/events/${eventId}`);
+}
+
+// push agli altri membri (il server controlla che messaggio/chiamata siano di chi chiede)
+export function notifyRoom(roomId: string, about: { type: "message"; messageId: string } | { type: "voice"; callId: string }) {
+  return request<{ sent: number }>("POST", `/api/rooms/${roomId}/notify`, about);
+}
+
+// chiude la chiamata se è rimasta vuota (il server controlla chi è ancora dentro)
+export function endEmptyCall(roomId: string, callId: string) {
+  return request<{ ended: boolean }>("POST", `/api/rooms/${roomId}/voice`, { callId });
+}
+
+export function roomIceConfig(roomId: string) {
+  return request<IceConfig>("GET", `/api/rooms/${roomId}/ice`);
+}
+
+export function inviteLink(code: string) {
+  return `${window.location.origin}/join?code=${encodeURIComponent(code)}`;
+}
+
+// motivo per cui l'invito non funziona più (null se valido)
+export function inviteProblem(inv: Invite, mainCode: string | undefined, now = Date.now()) {
+  if (inv.revoked || (inv.main && inv.code !== mainCode)) return "revocato";
+  if (inv.expiresAt && inv.expiresAt.getTime() <= now) return "scaduto";
+  if (inv.maxUses !== null && inv.uses >= inv.maxUses) return "esaurito";
+  return null;
+}
@@ -0,0 +1,309 @@
+import { randomInt } from "crypto";
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { ApiError, type ApiUser } from "./apiServer";
+import { adminDb, adminStorage } from "./firebaseAdmin";
+
+// Creazione room e ingresso con codice, lato server.
+// joinCodes/{codice} → { roomId }: l'id del doc garantisce l'unicità del codice.
+// rooms/{roomId}/invites/{codice}: inviti (il codice principale è rooms.joinCode, gli altri hanno un nome)
+// con scadenza, numero massimo di ingressi e revoca; rooms.joinDisabled chiude tutti gli ingressi.
+// Con rooms.requireApproval chi entra finisce in joinRequests/{uid} finché un admin non lo approva.
+// Chi diventa membro ritrova la room in users/{uid}/rooms/{roomId} (vedi lib/userRooms.ts).
+// Le room archiviate (rooms.archived) restano in sola lettura per chi c'è già: non entra nessuno di nuovo.
+
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const CODE_LENGTH = 6;
+
+function randomCode(len = CODE_LENGTH) {
+  let out = "";
+  for (let i = 0; i < len; i++) out += CODE_CHARS[randomInt(CODE_CHARS.length)];
+  return out;
+}
+
+export function normalizeCode(v: unknown) {
+  return typeof v === "string" ? v.trim().toUpperCase().replace(/[^A-Z0-9]/g, "") : "";
+}
+
+// riserva un codice libero dentro la transazione (le get vanno fatte prima delle scritture)
+export async function reserveCode(tx: Transaction) {
+  for (let i = 0; i < 8; i++) {
+    const code = randomCode();
+    const ref = adminDb.collection("joinCodes").doc(code);
+    if (!(await tx.get(ref)).exists) return { code, ref };
+  }
+  throw new ApiError(503, "Impossibile generare un codice: riprova.");
+}
+
+export type InviteOptions = { label: string; expiresAt: Date | null; maxUses: number | null };
+
+export function parseInviteOptions(body: Record<string, unknown>, fallbackLabel: string): InviteOptions {
+  const label = typeof body.label === "string" && body.label.trim() ? body.label.trim().slice(0, 40) : fallbackLabel;
+  const expires = typeof body.expiresAt === "string" && body.expiresAt ? new Date(body.expiresAt) : null;
+  if (expires && (isNaN(expires.getTime()) || expires.getTime() <= Date.now())) {
+    throw new ApiError(400, "La scadenza deve essere nel futuro.");
+  }
+  const max = body.maxUses === null || body.maxUses === undefined || body.maxUses === "" ? null : Number(body.maxUses);
+  if (max !== null && (!Number.isInteger(max) || max < 1 || max > 10000)) {
+    throw new ApiError(400, "Numero massimo di ingressi non valido.");
+  }
+  return { label, expiresAt: expires, maxUses: max };
+}
+
+function inviteDoc(code: string, by: ApiUser, opts: InviteOptions, main: boolean) {
+  return {
+    code,
+    label: opts.label,
+    main,
+    expiresAt: opts.expiresAt ? Timestamp.fromDate(opts.expiresAt) : null,
+    maxUses: opts.maxUses,
+    uses: 0,
+    revoked: false,
+    createdByUid: by.uid,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+const MAIN_LABEL = "Codice principale";
+
+function saveUserRoom(tx: Transaction, uid: string, roomId: string, name: string, joinCode: string) {
+  tx.set(
+    adminDb.collection("users").doc(uid).collection("rooms").doc(roomId),
+    { name, joinCode, lastOpenedAt: FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+}
+
+export async function createRoom(user: ApiUser, name: string) {
+  const roomName = name.trim().slice(0, 80) || "Room";
+
+  return adminDb.runTransaction(async (tx) => {
+    const { code, ref: codeRef } = await reserveCode(tx);
+    const roomRef = adminDb.collection("rooms").doc();
+
+    tx.create(codeRef, { roomId: roomRef.id, createdAt: FieldValue.serverTimestamp() });
+    tx.create(
+      roomRef.collection("invites").doc(code),
+      inviteDoc(code, user, { label: MAIN_LABEL, expiresAt: null, maxUses: null }, true)
+    );
+    tx.create(roomRef, {
+      name: roomName,
+      joinCode: code,
+      joinDisabled: false,
+      adminUid: user.uid,
+      defaultCanChat: true,
+      defaultCanCall: true,
+      lockChat: false,
+      lockCalls: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    tx.create(roomRef.collection("members").doc(user.uid), {
+      uid: user.uid,
+      name: user.name,
+      role: "owner",
+      canChat: true,
+      canCall: true,
+      joinedAt: FieldValue.serverTimestamp(),
+    });
+    saveUserRoom(tx, user.uid, roomRef.id, roomName, code);
+
+    return { roomId: roomRef.id, name: roomName, joinCode: code };
+  });
+}
+
+// room create prima di joinCodes: si cercano per campo e si registra il codice
+async function findRoomId(code: string) {
+  const codeSnap = await adminDb.collection("joinCodes").doc(code).get();
+  if (codeSnap.exists) return codeSnap.get("roomId") as string;
+
+  const legacy = await adminDb.collection("rooms").where("joinCode", "==", code).limit(1).get();
+  if (legacy.empty) return null;
+  const roomId = legacy.docs[0].id;
+  await adminDb
+    .collection("joinCodes")
+    .doc(code)
+    .create({ roomId, createdAt: FieldValue.serverTimestamp() })
+    .catch(() => {});
+  return roomId;
+}
+
+// il codice vale come invito: chi lo conosce diventa membro (se non è bannato e l'invito è ancora valido)
+export async function joinWithCode(user: ApiUser, code: string) {
+  const roomId = await findRoomId(code);
+  if (!roomId) throw new ApiError(404, "Nessuna room trovata con questo codice.");
+
+  return adminDb.runTransaction(async (tx) => {
+    const roomRef = adminDb.collection("rooms").doc(roomId);
+    const memberRef = roomRef.collection("members").doc(user.uid);
+    const inviteRef = roomRef.collection("invites").doc(code);
+    const requestRef = roomRef.collection("joinRequests").doc(user.uid);
+    const [room, member, ban, invite, joinRequest] = await Promise.all([
+      tx.get(roomRef),
+      tx.get(memberRef),
+      tx.get(roomRef.collection("bans").doc(user.uid)),
+      tx.get(inviteRef),
+      tx.get(requestRef),
+    ]);
+
+    if (!room.exists) throw new ApiError(404, "Nessuna room trovata con questo codice.");
+    const isOwner = room.get("adminUid") === user.uid;
+    if (!isOwner && ban.exists) throw new ApiError(403, "Sei stato bannato da questa room.");
+
+    const result = { roomId, name: (room.get("name") as string) ?? "Room", joinCode: code, pending: false };
+
+    // chi è già dentro rientra sempre
+    if (member.exists) {
+      tx.update(memberRef, { name: user.name });
+      saveUserRoom(tx, user.uid, roomId, result.name, room.get("joinCode") ?? code);
+      return result;
+    }
+
+    if (!isOwner && room.get("archived") === true) {
+      throw new ApiError(403, "Questa room è archiviata: non si può più entrare.");
+    }
+
+    // richiesta già fatta: non si conta un altro ingresso
+    if (!isOwner && joinRequest.exists) {
+      if (joinRequest.get("status") === "rejected") {
+        throw new ApiError(403, "La tua richiesta di ingresso è stata rifiutata.");
+      }
+      return { ...result, pending: true };
+    }
+
+    if (!isOwner) {
+      if (room.get("joinDisabled") === true) throw new ApiError(403, "Gli ingressi in questa room sono chiusi.");
+      checkInvite(tx, inviteRef, invite.exists ? invite.data() ?? null : null, code, room.data() ?? {});
+    }
+
+    const inviteFields = isOwner ? {} : { invite: code, inviteLabel: invite.get("label") ?? MAIN_LABEL };
+
+    if (!isOwner && room.get("requireApproval") === true) {
+      tx.create(requestRef, {
+        uid: user.uid,
+        name: user.name,
+        status: "pending",
+        requestedAt: FieldValue.serverTimestamp(),
+        ...inviteFields,
+      });
+      return { ...result, pending: true };
+    }
+
+    tx.create(memberRef, {
+      uid: user.uid,
+      name: user.name,
+      role: isOwner ? "owner" : "member",
+      canChat: isOwner ? true : room.get("defaultCanChat") ?? true,
+      canCall: isOwner ? true : room.get("defaultCanCall") ?? true,
+      joinedAt: FieldValue.serverTimestamp(),
+      ...inviteFields,
+    });
+    saveUserRoom(tx, user.uid, roomId, result.name, room.get("joinCode") ?? code);
+    return result;
+  });
+}
+
+// valida l'invito e conta l'ingresso (room create prima degli inviti: il codice principale senza doc)
+function checkInvite(
+  tx: Transaction,
+  ref: DocumentReference,
+  invite: DocumentData | null,
+  code: string,
+  room: DocumentData
+) {
+  if (!invite) {
+    if (code !== room.joinCode) throw new ApiError(410, "Questo codice non è più valido: chiedi un nuovo invito.");
+    const owner = { uid: room.adminUid as string, name: "" };
+    tx.set(ref, { ...inviteDoc(code, owner, { label: MAIN_LABEL, expiresAt: null, maxUses: null }, true), uses: 1 });
+    return;
+  }
+
+  const replaced = invite.main === true && code !== room.joinCode;
+  if (invite.revoked === true || replaced) {
+    throw new ApiError(410, "Questo codice non è più valido: chiedi un nuovo invito.");
+  }
+  const expiresAt = invite.expiresAt instanceof Timestamp ? invite.expiresAt.toMillis() : null;
+  if (expiresAt !== null && expiresAt <= Date.now()) throw new ApiError(410, "Questo invito è scaduto.");
+  if (typeof invite.maxUses === "number" && (invite.uses ?? 0) >= invite.maxUses) {
+    throw new ApiError(410, "Questo invito ha raggiunto il numero massimo di ingressi.");
+  }
+  tx.update(ref, { uses: FieldValue.increment(1), lastUsedAt: FieldValue.serverTimestamp() });
+}
+
+// owner o admin della room
+export async function requireRoomAdmin(user: ApiUser, roomId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const [room, member] = await Promise.all([roomRef.get(), roomRef.collection("members").doc(user.uid).get()]);
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  const role = member.get("role");
+  if (room.get("adminUid") !== user.uid && role !== "admin" && role !== "owner") {
+    throw new ApiError(403, "Solo gli admin gestiscono gli inviti.");
+  }
+  return roomRef;
+}
+
+export async function createInvite(user: ApiUser, roomId: string, opts: InviteOptions) {
+  const roomRef = await requireRoomAdmin(user, roomId);
+  return adminDb.runTransaction(async (tx) => {
+    const { code, ref } = await reserveCode(tx);
+    tx.create(ref, { roomId, createdAt: FieldValue.serverTimestamp() });
+    tx.create(roomRef.collection("invites").doc(code), inviteDoc(code, user, opts, false));
+    return { code };
+  });
+}
+
+// nuovo codice principale: il vecchio smette di funzionare
+export async function regenerateMainCode(user: ApiUser, roomId: string, opts: InviteOptions) {
+  const roomRef = await requireRoomAdmin(user, roomId);
+  return adminDb.runTransaction(async (tx) => {
+    const room = await tx.get(roomRef);
+    const oldCode = room.get("joinCode") as string | undefined;
+    const oldInvite = oldCode ? await tx.get(roomRef.collection("invites").doc(oldCode)) : null;
+    const { code, ref } = await reserveCode(tx);
+
+    tx.create(ref, { roomId, createdAt: FieldValue.serverTimestamp() });
+    tx.create(roomRef.collection("invites").doc(code), inviteDoc(code, user, opts, true));
+    if (oldInvite?.exists) tx.update(oldInvite.ref, { revoked: true, revokedAt: FieldValue.serverTimestamp() });
+    tx.update(roomRef, { joinCode: code });
+    return { code };
+  });
+}
+
+export async function revokeInvite(user: ApiUser, roomId: string, code: string) {
+  const roomRef = await requireRoomAdmin(user, roomId);
+  const ref = roomRef.collection("invites").doc(code);
+  const invite = await ref.get();
+  if (!invite.exists) throw new ApiError(404, "Invito non trovato.");
+  if (invite.get("main") === true) throw new ApiError(400, "Il codice principale si rigenera, non si revoca.");
+  await ref.update({ revoked: true, revokedAt: FieldValue.serverTimestamp(), revokedByUid: user.uid });
+}
+
+// eliminazione definitiva (solo owner): prima i riferimenti fuori dalla room (codici, elenchi dei membri),
+// poi la room con tutte le sottocollezioni, infine gli allegati
+export async function deleteRoom(user: ApiUser, roomId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const room = await roomRef.get();
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  if (room.get("adminUid") !== user.uid) throw new ApiError(403, "Solo l'owner può eliminare la room.");
+
+  const [members, codes] = await Promise.all([
+    roomRef.collection("members").select().get(),
+    adminDb.collection("joinCodes").where("roomId", "==", roomId).select().get(),
+  ]);
+  const writer = adminDb.bulkWriter();
+  codes.docs.forEach((d) => writer.delete(d.ref));
+  members.docs.forEach((d) => writer.delete(adminDb.collection("users").doc(d.id).collection("rooms").doc(roomId)));
+  await writer.close();
+
+  await adminDb.recursiveDelete(roomRef);
+
+  // i file rimasti non sono più raggiungibili: un errore qui non blocca l'eliminazione
+  await adminStorage
+    .bucket()
+    .deleteFiles({ prefix: `rooms/${roomId}/` })
+    .catch((err) => console.error("deleteRoom: allegati", roomId, err));
+}
@@ -0,0 +1,104 @@
+"use client";
+
+// Chi sta parlando in vocale: livello del microfono (RMS) di ogni traccia audio, letto con Web Audio.
+// Non passa niente da Firestore: ogni client lo calcola sulle tracce che riceve (e sulla propria).
+// Lo stesso livello fa da indicatore nella prova del microfono prima di entrare (createLevelMeter).
+
+const POLL_MS = 150;
+const THRESHOLD = 0.04;
+// resta "sta parlando" per un attimo dopo l'ultima parola, senza lampeggiare tra una sillaba e l'altra
+const HOLD_MS = 400;
+
+type Analysis = {
+  node: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  buffer: Uint8Array<ArrayBuffer>;
+};
+
+type Source = Analysis & { trackId: string; loudAt: number };
+
+export type SpeakingMonitor = {
+  update: (tracks: Record<string, MediaStreamTrack>) => void;
+  close: () => void;
+};
+
+// solo analisi: l'analyser non è collegato alle casse
+function analyse(ctx: AudioContext, track: MediaStreamTrack): Analysis {
+  const node = ctx.createMediaStreamSource(new MediaStream([track]));
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 512;
+  node.connect(analyser);
+  return { node, analyser, buffer: new Uint8Array(analyser.fftSize) };
+}
+
+function level(s: Analysis) {
+  s.analyser.getByteTimeDomainData(s.buffer);
+  let sum = 0;
+  for (const v of s.buffer) {
+    const x = (v - 128) / 128;
+    sum += x * x;
+  }
+  return Math.sqrt(sum / s.buffer.length);
+}
+
+// onChange: uid di chi sta parlando, solo quando l'elenco cambia
+export function createSpeakingMonitor(onChange: (uids: string[]) => void): SpeakingMonitor {
+  const ctx = new AudioContext();
+  const sources = new Map<string, Source>();
+  // null: il primo giro avvisa sempre (anche con nessuno che parla)
+  let last: string | null = null;
+
+  const remove = (uid: string) => {
+    const s = sources.get(uid);
+    if (!s) return;
+    s.node.disconnect();
+    sources.delete(uid);
+  };
+
+  const update = (tracks: Record<string, MediaStreamTrack>) => {
+    for (const uid of [...sources.keys()]) {
+      if (tracks[uid]?.id !== sources.get(uid)?.trackId) remove(uid);
+    }
+    for (const [uid, track] of Object.entries(tracks)) {
+      if (sources.has(uid) || track.readyState === "ended") continue;
+      sources.set(uid, { ...analyse(ctx, track), trackId: track.id, loudAt: 0 });
+    }
+    // l'AudioContext può nascere sospeso (autoplay)
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+  };
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    const speaking: string[] = [];
+    for (const [uid, s] of sources) {
+      if (level(s) > THRESHOLD) s.loudAt = now;
+      if (now - s.loudAt < HOLD_MS) speaking.push(uid);
+    }
+    const key = speaking.sort().join(",");
+    if (key !== last) {
+      last = key;
+      onChange(speaking);
+    }
+  }, POLL_MS);
+
+  const close = () => {
+    clearInterval(timer);
+    for (const uid of [...sources.keys()]) remove(uid);
+    ctx.close().catch(() => {});
+  };
+
+  return { update, close };
+}
+
+// livello (0–1) di una traccia, per la barra del test microfono; restituisce lo stop
+export function createLevelMeter(track: MediaStreamTrack, onLevel: (level: number) => void) {
+  const ctx = new AudioContext();
+  const s = analyse(ctx, track);
+  ctx.resume().catch(() => {});
+  const timer = setInterval(() => onLevel(level(s)), 100);
+  return () => {
+    clearInterval(timer);
+    s.node.disconnect();
+    ctx.close().catch(() => {});
+  };
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "./firebase";
+
+// Room dell'utente: users/{uid}/rooms/{roomId}, uguale su tutti i dispositivi.
+// La scrive il server quando si crea o si entra (app/api), la room page quando la si apre;
+// si toglie quando si esce, si viene rimossi o la room non esiste più.
+// Prima stava solo in localStorage ("scouthub.rooms.v1"): al primo login la si copia qui.
+
+export type SavedRoom = { id: string; name?: string; joinCode?: string; lastOpenedAt?: Date | null };
+
+const LEGACY_KEY = "scouthub.rooms.v1";
+
+function roomRef(uid: string, roomId: string) {
+  return doc(db, "users", uid, "rooms", roomId);
+}
+
+// più recenti in alto
+export function subscribeUserRooms(uid: string, onRooms: (rooms: SavedRoom[]) => void) {
+  migrateLocalRooms(uid).catch(() => {});
+
+  return onSnapshot(
+    collection(db, "users", uid, "rooms"),
+    (snap) => {
+      const rooms = snap.docs.map((d) => {
+        const data = d.data();
+        return {
+          id: d.id,
+          name: data.name,
+          joinCode: data.joinCode,
+          lastOpenedAt: data.lastOpenedAt instanceof Timestamp ? data.lastOpenedAt.toDate() : null,
+        };
+      });
+      rooms.sort((a, b) => (b.lastOpenedAt?.getTime() ?? 0) - (a.lastOpenedAt?.getTime() ?? 0));
+      onRooms(rooms);
+    },
+    () => onRooms([])
+  );
+}
+
+export function saveUserRoom(uid: string, room: { id: string; name?: string; joinCode?: string }) {
+  return setDoc(
+    roomRef(uid, room.id),
+    {
+      ...(room.name !== undefined ? { name: room.name } : {}),
+      ...(room.joinCode !== undefined ? { joinCode: room.joinCode } : {}),
+      lastOpenedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+export function forgetUserRoom(uid: string, roomId: string) {
+  return deleteDoc(roomRef(uid, roomId));
+}
+
+function loadLegacyRooms(): SavedRoom[] {
+  try {
+    const raw = localStorage.getItem(LEGACY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((x) => x && typeof x.id === "string");
+  } catch {
+    return [];
+  }
+}
+
+// una volta sola: poi la chiave locale sparisce (le room non più valide le toglie la room page)
+export async function migrateLocalRooms(uid: string) {
+  const legacy = loadLegacyRooms();
+  if (legacy.length === 0) return;
+
+  const batch = writeBatch(db);
+  legacy.forEach((r) =>
+    batch.set(
+      roomRef(uid, r.id),
+      {
+        ...(typeof r.name === "string" ? { name: r.name } : {}),
+        ...(typeof r.joinCode === "string" ? { joinCode: r.joinCode } : {}),
+        migratedAt: serverTimestamp(),
+      },
+      { merge: true }
+    )
+  );
+  await batch.commit();
+  localStorage.removeItem(LEGACY_KEY);
+}
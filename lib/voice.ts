@@ -0,0 +1,214 @@
+"use client";
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { readConverter, toDate } from "./converters";
+import { db } from "./firebase";
+import { isFresh, STALE_MS } from "./presenceRules";
+import { endEmptyCall, notifyRoom } from "./roomsApi";
+
+// Stato del vocale della room (le connessioni WebRTC sono in lib/voiceMesh.ts):
+// - voice/current → { callId } della chiamata aperta (null = vocale non attivo)
+// - calls/{callId} → { status }: "ended" chiude il vocale per tutti
+// - voiceMembers/{uid} → chi è in vocale adesso, con la session a cui connettersi;
+//   lastSeenAt si rinnova ogni HEARTBEAT_MS (lib/presenceRules.ts), i doc fermi da STALE_MS sono fantasmi
+//   che chiunque nella room può eliminare. Senza nessuno dentro la chiamata si chiude da sola.
+//   camera / screen: cosa sta mandando oltre al microfono (i video viaggiano nel mesh)
+//   muted: microfono spento da lui; forceMuted: silenziato da un moderatore (lo toglie solo un moderatore,
+//   l'audio è peer-to-peer: lo spengono sia il suo client sia quelli degli altri)
+// - voiceMutes/{uid} → { uid, byUid, at }: chi è silenziato da un moderatore. Lo scrivono solo loro e
+//   resta anche fuori dal vocale; forceMuted in voiceMembers ne è la copia (le regole la controllano)
+
+export type VoiceMember = {
+  uid: string;
+  name: string;
+  joinedAt: Date | null;
+  lastSeenAt: Date | null;
+  session?: string;
+  camera: boolean;
+  screen: boolean;
+  muted: boolean;
+  forceMuted: boolean;
+};
+
+export type CallStatus = "open" | "connected" | "ended";
+
+const voiceMemberConverter = readConverter<VoiceMember>((d) => {
+  const data = d.data({ serverTimestamps: "estimate" });
+  return {
+    uid: d.id,
+    name: data.name ?? "utente",
+    joinedAt: toDate(data.joinedAt),
+    // doc di prima degli heartbeat: vale l'ingresso
+    lastSeenAt: toDate(data.lastSeenAt) ?? toDate(data.joinedAt),
+    session: data.session,
+    camera: data.camera === true,
+    screen: data.screen === true,
+    muted: data.muted === true,
+    forceMuted: data.forceMuted === true,
+  };
+});
+
+function voiceMembersCol(roomId: string) {
+  return collection(db, "rooms", roomId, "voiceMembers").withConverter(voiceMemberConverter);
+}
+
+function muteRef(roomId: string, uid: string) {
+  return doc(db, "rooms", roomId, "voiceMutes", uid);
+}
+
+function voiceRef(roomId: string) {
+  return doc(db, "rooms", roomId, "voice", "current");
+}
+
+async function currentCallId(roomId: string) {
+  const snap = await getDoc(voiceRef(roomId));
+  const cid = snap.exists() ? snap.get("callId") : null;
+  return typeof cid === "string" ? cid : null;
+}
+
+export function subscribeVoiceCall(roomId: string, onCallId: (callId: string | null) => void) {
+  return onSnapshot(voiceRef(roomId), (snap) => {
+    const cid = snap.exists() ? snap.get("callId") : null;
+    onCallId(typeof cid === "string" ? cid : null);
+  });
+}
+
+export function subscribeVoiceMembers(roomId: string, onMembers: (list: VoiceMember[]) => void) {
+  const q = query(voiceMembersCol(roomId), orderBy("joinedAt", "asc"));
+  return onSnapshot(
+    q,
+    (snap) => onMembers(snap.docs.map((d) => d.data())),
+    () => onMembers([])
+  );
+}
+
+// chiamata aperta della room, creata se non c'è (onCreate: per lo stato "Creo stanza vocale…").
+// Controllo e scrittura di voice/current in una transazione: se due la aprono insieme,
+// il secondo entra nella chiamata del primo (i peer stanno sotto calls/{callId})
+export async function openVoiceCall(roomId: string, byUid: string, onCreate?: () => void) {
+  const existing = await currentCallId(roomId);
+  if (existing) return existing;
+
+  onCreate?.();
+  const callRef = doc(collection(db, "rooms", roomId, "calls"));
+  const opened = await runTransaction(db, async (tx) => {
+    const current = await tx.get(voiceRef(roomId));
+    const cid = current.exists() ? current.get("callId") : null;
+    if (typeof cid === "string") return { callId: cid, created: false };
+
+    tx.set(callRef, { createdAt: serverTimestamp(), createdByUid: byUid, status: "open" satisfies CallStatus });
+    tx.set(voiceRef(roomId), { callId: callRef.id, updatedAt: serverTimestamp(), updatedByUid: byUid }, { merge: true });
+    return { callId: callRef.id, created: true };
+  });
+  if (opened.created) notifyRoom(roomId, { type: "voice", callId: opened.callId }).catch(() => {});
+  return opened.callId;
+}
+
+export function subscribeCallStatus(roomId: string, callId: string, onStatus: (status: CallStatus) => void) {
+  return onSnapshot(doc(db, "rooms", roomId, "calls", callId), (snap) => {
+    const status = snap.get("status");
+    if (status === "open" || status === "connected" || status === "ended") onStatus(status);
+  });
+}
+
+// presenza in vocale (con la session: gli altri si connettono a questa).
+// forceMuted si ricopia da voiceMutes: rientrare non toglie il silenzio di un moderatore
+export async function joinVoice(roomId: string, by: { uid: string; name: string }, session: string, muted = false) {
+  const forceMuted = (await getDoc(muteRef(roomId, by.uid))).exists();
+  await setDoc(
+    doc(db, "rooms", roomId, "voiceMembers", by.uid),
+    {
+      uid: by.uid,
+      name: by.name,
+      joinedAt: serverTimestamp(),
+      lastSeenAt: serverTimestamp(),
+      session,
+      camera: false,
+      screen: false,
+      muted,
+      forceMuted,
+    },
+    { merge: true }
+  );
+}
+
+// heartbeat in vocale: fallisce se il doc non c'è più (eliminato come fantasma o da un moderatore)
+export async function heartbeatVoice(roomId: string, uid: string) {
+  await updateDoc(doc(db, "rooms", roomId, "voiceMembers", uid), { lastSeenAt: serverTimestamp() });
+}
+
+export async function setVoiceMedia(roomId: string, uid: string, media: { camera?: boolean; screen?: boolean }) {
+  await updateDoc(doc(db, "rooms", roomId, "voiceMembers", uid), media);
+}
+
+export async function setVoiceMuted(roomId: string, uid: string, muted: boolean) {
+  await updateDoc(doc(db, "rooms", roomId, "voiceMembers", uid), { muted });
+}
+
+// moderatori, su chi ha un ruolo più basso; per toglierlo dal vocale basta leaveVoice
+export async function forceMuteVoice(roomId: string, uid: string, forceMuted: boolean, byUid: string) {
+  const batch = writeBatch(db);
+  if (forceMuted) batch.set(muteRef(roomId, uid), { uid, byUid, at: serverTimestamp() });
+  else batch.delete(muteRef(roomId, uid));
+  batch.update(doc(db, "rooms", roomId, "voiceMembers", uid), { forceMuted });
+  await batch.commit();
+}
+
+// moderatori: toglie uid dal vocale e gli leva canCall, sennò rientrerebbe subito
+// (si ridà dall'elenco dei membri)
+export async function removeFromVoice(roomId: string, uid: string) {
+  const batch = writeBatch(db);
+  batch.update(doc(db, "rooms", roomId, "members", uid), { canCall: false });
+  batch.delete(doc(db, "rooms", roomId, "voiceMembers", uid));
+  await batch.commit();
+}
+
+// elimina i fantasmi (pagina chiusa senza uscire dal vocale)
+export async function pruneVoiceMembers(roomId: string, list: VoiceMember[], now: number) {
+  const stale = list.filter((m) => !isFresh(m.lastSeenAt, now));
+  await Promise.all(stale.map((m) => leaveVoice(roomId, m.uid).catch(() => {})));
+}
+
+// chiude la chiamata se dentro non c'è più nessuno. graceMs: chiamata appena aperta,
+// chi l'ha creata sta ancora dando il permesso al microfono.
+// Qui solo i controlli che evitano richieste inutili: chiude il server (lib/voiceServer.ts),
+// che rifà il conto di chi è dentro (le regole non lasciano chiudere la chiamata ai membri)
+export async function endCallIfEmpty(roomId: string, callId: string, graceMs = STALE_MS) {
+  const current = await getDoc(voiceRef(roomId));
+  if (!current.exists() || current.get("callId") !== callId) return false;
+  const openedAt = toDate(current.get("updatedAt"));
+  if (graceMs > 0 && (!openedAt || Date.now() - openedAt.getTime() < graceMs)) return false;
+
+  const now = Date.now();
+  const inside = (await getDocs(voiceMembersCol(roomId))).docs.map((d) => d.data());
+  if (inside.some((m) => isFresh(m.lastSeenAt, now))) return false;
+
+  return (await endEmptyCall(roomId, callId)).ended;
+}
+
+export async function leaveVoice(roomId: string, uid: string) {
+  await deleteDoc(doc(db, "rooms", roomId, "voiceMembers", uid));
+}
+
+// moderatori: chiude la chiamata (chi è dentro esce da solo) e azzera voice/current
+export async function endVoiceForAll(roomId: string, byUid: string) {
+  const cid = await currentCallId(roomId);
+  if (cid) {
+    await updateDoc(doc(db, "rooms", roomId, "calls", cid), { status: "ended" satisfies CallStatus }).catch(() => {});
+  }
+  await setDoc(voiceRef(roomId), { callId: null, updatedAt: serverTimestamp(), updatedByUid: byUid }, { merge: true });
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import {
+  addDoc,
+  collection,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  type Unsubscribe,
+} from "firebase/firestore";
+import { db } from "./firebase";
+
+// Vocale a maglia (mesh): una RTCPeerConnection per ogni coppia di partecipanti.
+//
+// rooms/{roomId}/calls/{callId}/peers/{pairId}
+//   - pairId = uid ordinati uniti da "_"
+//   - offer/answer della coppia + sessioni (ogni ingresso in vocale ha una session nuova)
+//   - offerCandidates / answerCandidates: ICE candidates della coppia
+//
+// Chi ha lo uid "minore" fa l'offer, l'altro risponde: niente glare.
+//
+// Ogni connessione ha tre transceiver fissi, nello stesso ordine per tutti: microfono, camera, schermo.
+// Accendere o spegnere camera e schermo è un replaceTrack sul sender: nessuna nuova negoziazione.
+// Se camera/schermo sono accesi lo dice voiceMembers/{uid} (lib/voice.ts), non il flusso RTP.
+//
+// Connessione caduta ("failed", o "disconnected" per più di DISCONNECT_GRACE_MS): chi fa l'offer
+// rifà l'ICE (ICE restart) con un nuovo offer sulla stessa coppia. gen conta le negoziazioni
+// della coppia: offer, answer e candidates la portano, così quelli di prima si scartano.
+// I server STUN/TURN (rtcConfig) arrivano da lib/ice.ts.
+
+export type MeshMember = { uid: string; session?: string };
+
+// "restarting": ICE restart in corso dopo una connessione caduta
+export type PeerState = RTCPeerConnectionState | "restarting";
+
+const MAX_RESTARTS = 3;
+const DISCONNECT_GRACE_MS = 5000;
+
+export type MediaSlot = "audio" | "camera" | "screen";
+const SLOTS: MediaSlot[] = ["audio", "camera", "screen"];
+
+// uno stream per slot, con al più una traccia (quella ricevuta dal transceiver)
+export type RemoteMedia = Record<MediaSlot, MediaStream>;
+
+type SessionDescription = { type: RTCSdpType; sdp?: string };
+
+export type PeerDoc = {
+  uids: string[];
+  offerUid: string;
+  offerSession: string;
+  answerSession: string;
+  offer?: SessionDescription | null;
+  answer?: SessionDescription | null;
+  offerGen?: number;
+  answerGen?: number | null;
+  updatedAt?: unknown;
+};
+
+type Peer = {
+  uid: string;
+  session: string;
+  pc: RTCPeerConnection | null;
+  pending: { init: RTCIceCandidateInit; gen: number }[];
+  unsubs: Unsubscribe[];
+  media: RemoteMedia | null;
+  // negoziazione in corso (mia) e ultima remote description applicata (-1 = nessuna)
+  gen: number;
+  remoteGen: number;
+  restarts: number;
+  disconnectTimer: ReturnType<typeof setTimeout> | null;
+};
+
+type VoiceMeshOptions = {
+  roomId: string;
+  callId: string;
+  uid: string;
+  session: string;
+  localStream: MediaStream;
+  rtcConfig: RTCConfiguration;
+  onRemoteMedia: (uid: string, media: RemoteMedia | null) => void;
+  onPeerState?: (uid: string, state: PeerState) => void;
+};
+
+export function pairIdFor(a: string, b: string) {
+  return [a, b].sort().join("_");
+}
+
+export function newVoiceSession() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+}
+
+export function createVoiceMesh(opts: VoiceMeshOptions) {
+  const { roomId, callId, uid: myUid, session: mySession, localStream, rtcConfig } = opts;
+  const peers = new Map<string, Peer>();
+  let closed = false;
+
+  // tracce che mandiamo a tutti (null = slot spento)
+  const localTracks: Record<MediaSlot, MediaStreamTrack | null> = {
+    audio: localStream.getAudioTracks()[0] ?? null,
+    camera: null,
+    screen: null,
+  };
+
+  const pairRef = (remoteUid: string) =>
+    doc(db, "rooms", roomId, "calls", callId, "peers", pairIdFor(myUid, remoteUid));
+
+  const candidatesOf = (remoteUid: string, side: "offerCandidates" | "answerCandidates") =>
+    collection(db, "rooms", roomId, "calls", callId, "peers", pairIdFor(myUid, remoteUid), side);
+
+  // chi fa l'offer crea i transceiver; chi risponde li riceve con l'offer (attachLocalTracks)
+  const createPc = (peer: Peer, mySide: "offerCandidates" | "answerCandidates") => {
+    const pc = new RTCPeerConnection(rtcConfig);
+    if (mySide === "offerCandidates") {
+      pc.addTransceiver(localTracks.audio ?? "audio", { direction: "sendrecv", streams: [localStream] });
+      pc.addTransceiver(localTracks.camera ?? "video", { direction: "sendrecv" });
+      pc.addTransceiver(localTracks.screen ?? "video", { direction: "sendrecv" });
+    }
+
+    pc.ontrack = (event) => {
+      const slot = SLOTS[pc.getTransceivers().indexOf(event.transceiver)];
+      if (!slot) return;
+      const media = peer.media ?? { audio: new MediaStream(), camera: new MediaStream(), screen: new MediaStream() };
+      peer.media = media;
+      media[slot].getTracks().forEach((t) => media[slot].removeTrack(t));
+      media[slot].addTrack(event.track);
+      opts.onRemoteMedia(peer.uid, { ...media });
+    };
+
+    pc.onicecandidate = (event) => {
+      if (!event.candidate) return;
+      addDoc(candidatesOf(peer.uid, mySide), { ...event.candidate.toJSON(), session: mySession, gen: peer.gen }).catch(() => {});
+    };
+
+    pc.onconnectionstatechange = () => onConnectionState(peer, pc);
+
+    peer.pc = pc;
+    return pc;
+  };
+
+  // l'errore si vede come "non raggiungibile" nel riepilogo delle connessioni (lib/ice.ts)
+  const fail = (peer: Peer) => {
+    if (closed || peers.get(peer.uid) !== peer) return;
+    opts.onPeerState?.(peer.uid, "failed");
+  };
+
+  const onConnectionState = (peer: Peer, pc: RTCPeerConnection) => {
+    if (peers.get(peer.uid) !== peer) return;
+    const state = pc.connectionState;
+    if (peer.disconnectTimer) clearTimeout(peer.disconnectTimer);
+    peer.disconnectTimer = null;
+
+    if (state === "connected") peer.restarts = 0;
+    if (state === "disconnected") {
+      // spesso si riprende da sola (cambio di rete): si aspetta un po' prima di rifare l'ICE
+      peer.disconnectTimer = setTimeout(() => {
+        if (pc.connectionState === "disconnected") restartIce(peer);
+      }, DISCONNECT_GRACE_MS);
+    }
+    if (state === "failed" && restartIce(peer)) return;
+    opts.onPeerState?.(peer.uid, state);
+  };
+
+  // solo chi fa l'offer (niente glare); false = non si riprova più
+  const restartIce = (peer: Peer) => {
+    const pc = peer.pc;
+    if (closed || !pc || myUid > peer.uid || peer.restarts >= MAX_RESTARTS) return false;
+    peer.restarts += 1;
+    peer.gen += 1;
+    opts.onPeerState?.(peer.uid, "restarting");
+
+    (async () => {
+      pc.restartIce();
+      const offer = await pc.createOffer({ iceRestart: true });
+      await pc.setLocalDescription(offer);
+      if (closed || peers.get(peer.uid) !== peer) return;
+      await updateDoc(pairRef(peer.uid), {
+        offer: { type: offer.type, sdp: offer.sdp },
+        offerGen: peer.gen,
+        answer: null,
+        answerGen: null,
+        updatedAt: serverTimestamp(),
+      });
+    })().catch(() => fail(peer));
+    return true;
+  };
+
+  // I candidates possono arrivare prima della remote description (o di quella del restart):
+  // li teniamo da parte; quelli di una negoziazione vecchia non servono più
+  const addCandidate = async (peer: Peer, init: RTCIceCandidateInit, gen: number) => {
+    const pc = peer.pc;
+    if (gen < peer.remoteGen) return;
+    if (!pc || !pc.remoteDescription || gen > peer.remoteGen) {
+      peer.pending.push({ init, gen });
+      return;
+    }
+    try {
+      await pc.addIceCandidate(new RTCIceCandidate(init));
+    } catch {
+      // candidate di una rete che non si raggiunge: normale, ne bastano altri
+    }
+  };
+
+  const attachLocalTracks = async (pc: RTCPeerConnection) => {
+    const transceivers = pc.getTransceivers();
+    await Promise.all(
+      SLOTS.map(async (slot, i) => {
+        const t = transceivers[i];
+        if (!t) return;
+        t.direction = "sendrecv";
+        await t.sender.replaceTrack(localTracks[slot]);
+      })
+    );
+  };
+
+  const flushCandidates = async (peer: Peer) => {
+    const queued = peer.pending.splice(0);
+    for (const c of queued) await addCandidate(peer, c.init, c.gen);
+  };
+
+  const listenCandidates = (peer: Peer, remoteSide: "offerCandidates" | "answerCandidates") => {
+    const unsub = onSnapshot(candidatesOf(peer.uid, remoteSide), (snap) => {
+      snap.docChanges().forEach((change) => {
+        if (change.type !== "added") return;
+        const { session, gen, ...init } = change.doc.data() as RTCIceCandidateInit & { session?: string; gen?: number };
+        if (session !== peer.session) return;
+        addCandidate(peer, init, gen ?? 0);
+      });
+    });
+    peer.unsubs.push(unsub);
+  };
+
+  const startAsOfferer = async (peer: Peer) => {
+    const pc = createPc(peer, "offerCandidates");
+    listenCandidates(peer, "answerCandidates");
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    if (closed || peers.get(peer.uid) !== peer) return;
+
+    await setDoc(pairRef(peer.uid), {
+      uids: [myUid, peer.uid].sort(),
+      offerUid: myUid,
+      offerSession: mySession,
+      answerSession: peer.session,
+      offer: { type: offer.type, sdp: offer.sdp },
+      offerGen: peer.gen,
+      answer: null,
+      answerGen: null,
+      updatedAt: serverTimestamp(),
+    } as PeerDoc);
+
+    const unsub = onSnapshot(pairRef(peer.uid), async (snap) => {
+      const data = snap.data() as PeerDoc | undefined;
+      if (!data?.answer) return;
+      if (data.offerSession !== mySession || data.answerSession !== peer.session) return;
+      const gen = data.answerGen ?? 0;
+      if (gen !== peer.gen || peer.remoteGen === gen) return;
+      peer.remoteGen = gen;
+      try {
+        await pc.setRemoteDescription(new RTCSessionDescription(data.answer));
+        await flushCandidates(peer);
+      } catch {
+        fail(peer);
+      }
+    });
+    peer.unsubs.push(unsub);
+  };
+
+  const startAsAnswerer = (peer: Peer) => {
+    const unsub = onSnapshot(pairRef(peer.uid), async (snap) => {
+      const data = snap.data() as PeerDoc | undefined;
+      if (!data?.offer) return;
+      if (data.offerUid !== peer.uid || data.offerSession !== peer.session) return;
+      if (data.answerSession !== mySession) return;
+      // primo offer, oppure un ICE restart di chi fa l'offer
+      const gen = data.offerGen ?? 0;
+      if (peer.pc && gen <= peer.remoteGen) return;
+
+      const first = !peer.pc;
+      try {
+        // new RTCPeerConnection lancia con server ICE non validi
+        const pc = peer.pc ?? createPc(peer, "answerCandidates");
+        if (first) listenCandidates(peer, "offerCandidates");
+        else opts.onPeerState?.(peer.uid, "restarting");
+        peer.gen = gen;
+        peer.remoteGen = gen;
+        await pc.setRemoteDescription(new RTCSessionDescription(data.offer));
+        if (first) await attachLocalTracks(pc);
+        await flushCandidates(peer);
+        const answer = await pc.createAnswer();
+        await pc.setLocalDescription(answer);
+        if (closed || peers.get(peer.uid) !== peer) return;
+        await updateDoc(pairRef(peer.uid), {
+          answer: { type: answer.type, sdp: answer.sdp },
+          answerGen: gen,
+          updatedAt: serverTimestamp(),
+        });
+      } catch {
+        fail(peer);
+      }
+    });
+    peer.unsubs.push(unsub);
+  };
+
+  const dropPeer = (remoteUid: string) => {
+    const peer = peers.get(remoteUid);
+    if (!peer) return;
+    peers.delete(remoteUid);
+    if (peer.disconnectTimer) clearTimeout(peer.disconnectTimer);
+    peer.unsubs.forEach((u) => u());
+    try {
+      peer.pc?.close();
+    } catch {}
+    opts.onRemoteMedia(remoteUid, null);
+  };
+
+  // Allinea le connessioni con chi è in "voiceMembers": nuovi → connetti, usciti → chiudi
+  const sync = (members: MeshMember[]) => {
+    if (closed) return;
+    const wanted = new Map<string, string>();
+    members.forEach((m) => {
+      if (m.uid !== myUid && m.session) wanted.set(m.uid, m.session);
+    });
+
+    Array.from(peers.values()).forEach((p) => {
+      if (wanted.get(p.uid) !== p.session) dropPeer(p.uid);
+    });
+
+    wanted.forEach((session, remoteUid) => {
+      if (peers.has(remoteUid)) return;
+      const peer: Peer = {
+        uid: remoteUid,
+        session,
+        pc: null,
+        pending: [],
+        unsubs: [],
+        media: null,
+        gen: 0,
+        remoteGen: -1,
+        restarts: 0,
+        disconnectTimer: null,
+      };
+      peers.set(remoteUid, peer);
+      if (myUid < remoteUid) startAsOfferer(peer).catch(() => fail(peer));
+      else startAsAnswerer(peer);
+    });
+  };
+
+  // camera / schermo accesi o spenti a chiamata in corso (anche il microfono, es. cambio dispositivo)
+  const setTrack = async (slot: MediaSlot, track: MediaStreamTrack | null) => {
+    localTracks[slot] = track;
+    const i = SLOTS.indexOf(slot);
+    await Promise.all(
+      Array.from(peers.values()).map(async (p) => {
+        const sender = p.pc?.getTransceivers()[i]?.sender;
+        if (sender) await sender.replaceTrack(track).catch(() => {});
+      })
+    );
+  };
+
+  const close = () => {
+    closed = true;
+    Array.from(peers.keys()).forEach(dropPeer);
+  };
+
+  return { sync, setTrack, close };
+}
+
+export type VoiceMesh = ReturnType<typeof createVoiceMesh>;
@@ -0,0 +1,53 @@
+import { FieldValue, Timestamp, type DocumentSnapshot } from "firebase-admin/firestore";
+import { ApiError, type ApiUser } from "./apiServer";
+import { adminDb } from "./firebaseAdmin";
+import { STALE_MS } from "./presenceRules";
+
+// Chiusura del vocale rimasto vuoto, lato server. La chiede qualunque membro (anche senza canCall,
+// vedi lib/voice.ts endCallIfEmpty), ma le regole lasciano chiudere una chiamata solo ai moderatori:
+// qui si controlla che nessuno in voiceMembers abbia battuto un heartbeat da poco.
+
+
+function millis(v: unknown) {
+  return v instanceof Timestamp ? v.toMillis() : null;
+}
+
+function isInside(m: DocumentSnapshot, now: number) {
+  const seen = millis(m.get("lastSeenAt")) ?? millis(m.get("joinedAt"));
+  return seen === null || now - seen < STALE_MS;
+}
+
+// false se la chiamata non è più quella corrente o dentro c'è ancora qualcuno.
+// Chiamata appena aperta: si aspetta STALE_MS (chi l'ha creata sta ancora dando il permesso
+// al microfono), tranne quando a chiuderla è proprio chi l'ha creata.
+export async function endEmptyCall(user: ApiUser, roomId: string, callId: string) {
+  const roomRef = adminDb.collection("rooms").doc(roomId);
+  const [room, me] = await Promise.all([roomRef.get(), roomRef.collection("members").doc(user.uid).get()]);
+  if (!room.exists) throw new ApiError(404, "Room non trovata.");
+  if (!me.exists) throw new ApiError(403, "Non fai parte di questa room.");
+
+  const voiceRef = roomRef.collection("voice").doc("current");
+  const callRef = roomRef.collection("calls").doc(callId);
+  return adminDb.runTransaction(async (tx) => {
+    const [current, call, inside] = await Promise.all([
+      tx.get(voiceRef),
+      tx.get(callRef),
+      tx.get(roomRef.collection("voiceMembers")),
+    ]);
+    if (current.get("callId") !== callId) return false;
+
+    const now = Date.now();
+    const openedAt = millis(current.get("updatedAt"));
+    const mine = call.get("createdByUid") === user.uid;
+    if (!mine && (openedAt === null || now - openedAt < STALE_MS)) return false;
+    if (inside.docs.some((m) => isInside(m, now))) return false;
+
+    if (call.exists) tx.update(callRef, { status: "ended", endedAt: FieldValue.serverTimestamp() });
+    tx.set(
+      voiceRef,
+      { callId: null, updatedAt: FieldValue.serverTimestamp(), updatedByUid: user.uid },
+      { merge: true }
+    );
+    return true;
+  });
+}
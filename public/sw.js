@@ -0,0 +1,122 @@
+// Service worker di ScoutHub (registrato da lib/offline.ts).
+// - offline: le pagine dell'app (shell) e i file statici di Next restano in cache,
+//   così al campo l'app si apre anche senza rete (i dati li tiene la cache di Firestore)
+// - notifiche push: il server (lib/notifyServer.ts) manda solo "data" { title, body, url, tag },
+//   la notifica la mostriamo qui, tranne quando quella room è già aperta e in primo piano.
+
+const SHELL_CACHE = "scouthub-shell-v1";
+const STATIC_CACHE = "scouthub-static-v1";
+const SHELL_ROUTES = ["/", "/join", "/Calendar"];
+
+// in sviluppo (?cache=0) niente cache: i file di next dev cambiano a ogni modifica
+const CACHING = new URL(self.location.href).searchParams.get("cache") !== "0";
+
+// tutte le room usano la stessa pagina: la si salva una volta sola
+function shellKey(pathname) {
+  if (pathname.startsWith("/room/")) return "/room/";
+  return SHELL_ROUTES.includes(pathname) ? pathname : null;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      if (CACHING) {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(SHELL_ROUTES).catch(() => {});
+      }
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = CACHING ? [SHELL_CACHE, STATIC_CACHE] : [];
+      const names = await caches.keys();
+      await Promise.all(names.filter((n) => n.startsWith("scouthub-") && !keep.includes(n)).map((n) => caches.delete(n)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// pagine: prima la rete (versione aggiornata), senza rete l'ultima salvata
+async function pageFromNetwork(request, key) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok && res.type === "basic") await cache.put(key, res.clone());
+    return res;
+  } catch {
+    return (await cache.match(key)) || (await cache.match("/")) || Response.error();
+  }
+}
+
+// file statici di Next: hanno l'hash nel nome, non cambiano mai
+async function staticFromCache(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const res = await fetch(request);
+  if (res.ok) await cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (!CACHING || request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    const key = shellKey(url.pathname);
+    if (key) event.respondWith(pageFromNetwork(request, key));
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/") || /^\/(icon-|apple-touch-icon|manifest)/.test(url.pathname)) {
+    event.respondWith(staticFromCache(request));
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let msg = {};
+  try {
+    const payload = event.data ? event.data.json() : {};
+    msg = payload.data || payload;
+  } catch {
+    msg = { body: event.data ? event.data.text() : "" };
+  }
+  const url = msg.url || "/";
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      if (windows.some((c) => c.focused && new URL(c.url).pathname === url)) return;
+
+      await self.registration.showNotification(msg.title || "ScoutHub", {
+        body: msg.body || "",
+        tag: msg.tag || undefined,
+        renotify: Boolean(msg.tag),
+        icon: "/icon-192.png",
+        badge: "/icon-192.png",
+        data: { url },
+      });
+    })()
+  );
+});
+
+// click: torna alla finestra già aperta su quella pagina, altrimenti ne apre una
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const open = windows.find((c) => new URL(c.url).pathname === url);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })()
+  );
+});
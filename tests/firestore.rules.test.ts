@@ -0,0 +1,312 @@
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, writeBatch } from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+// Regole di firestore.rules contro l'emulatore (npm test le avvia con firebase emulators:exec).
+// Una room "r1": owner, due admin, moderatore, due membri (bob senza chat né vocale) e un estraneo.
+
+const ROOM = "r1";
+let env: RulesTestEnvironment;
+
+const ROOM_DATA = {
+  name: "Reparto",
+  adminUid: "owner",
+  joinCode: "ABC234",
+  lockChat: false,
+  lockCalls: false,
+  defaultCanChat: true,
+  defaultCanCall: true,
+};
+
+const MEMBERS = [
+  { uid: "owner", role: "owner" },
+  { uid: "admin", role: "admin" },
+  { uid: "admin2", role: "admin" },
+  { uid: "mod", role: "moderator" },
+  { uid: "alice", role: "member" },
+  { uid: "bob", role: "member", canChat: false, canCall: false },
+];
+
+function db(uid: string | null) {
+  return (uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()).firestore();
+}
+
+function message(uid: string, text = "ciao") {
+  return { uid, name: uid, text, createdAt: serverTimestamp() };
+}
+
+function voiceMember(uid: string) {
+  return { uid, name: uid, joinedAt: serverTimestamp(), lastSeenAt: serverTimestamp(), session: "s1" };
+}
+
+async function seed(patch: Record<string, unknown> = {}) {
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const admin = ctx.firestore();
+    await setDoc(doc(admin, "rooms", ROOM), { ...ROOM_DATA, ...patch });
+    for (const m of MEMBERS) {
+      await setDoc(doc(admin, "rooms", ROOM, "members", m.uid), { name: m.uid, ...m });
+    }
+  });
+}
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-scouthub",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed();
+});
+
+describe("impostazioni della room", () => {
+  it("gli admin cambiano le impostazioni", async () => {
+    await assertSucceeds(updateDoc(doc(db("admin"), "rooms", ROOM), { defaultCanChat: false, name: "Clan" }));
+    await assertSucceeds(updateDoc(doc(db("owner"), "rooms", ROOM), { defaultCanCall: false }));
+  });
+
+  it("i moderatori bloccano chat e vocale, nient'altro", async () => {
+    await assertSucceeds(updateDoc(doc(db("mod"), "rooms", ROOM), { lockChat: true, lockCalls: true }));
+    await assertFails(updateDoc(doc(db("mod"), "rooms", ROOM), { defaultCanChat: false }));
+  });
+
+  it("i membri non cambiano niente", async () => {
+    await assertFails(updateDoc(doc(db("alice"), "rooms", ROOM), { name: "Mia" }));
+    await assertFails(updateDoc(doc(db("alice"), "rooms", ROOM), { lockChat: true }));
+  });
+
+  it("il codice e l'owner non si toccano dal client", async () => {
+    await assertFails(updateDoc(doc(db("owner"), "rooms", ROOM), { joinCode: "ZZZ999" }));
+    await assertFails(updateDoc(doc(db("admin"), "rooms", ROOM), { adminUid: "admin" }));
+  });
+});
+
+describe("messaggi", () => {
+  it("un membro scrive a nome suo", async () => {
+    await assertSucceeds(setDoc(doc(db("alice"), "rooms", ROOM, "messages", "m1"), message("alice")));
+    await assertFails(setDoc(doc(db("alice"), "rooms", ROOM, "messages", "m2"), message("bob")));
+  });
+
+  it("canChat false blocca il membro", async () => {
+    await assertFails(setDoc(doc(db("bob"), "rooms", ROOM, "messages", "m1"), message("bob")));
+  });
+
+  it("lockChat blocca i membri ma non i moderatori", async () => {
+    await seed({ lockChat: true });
+    await assertFails(setDoc(doc(db("alice"), "rooms", ROOM, "messages", "m1"), message("alice")));
+    await assertSucceeds(setDoc(doc(db("mod"), "rooms", ROOM, "messages", "m2"), message("mod")));
+  });
+
+  it("con lockChat l'autore non modifica più i suoi messaggi", async () => {
+    await setDoc(doc(db("alice"), "rooms", ROOM, "messages", "m1"), message("alice"));
+    await seed({ lockChat: true });
+    await assertFails(
+      updateDoc(doc(db("alice"), "rooms", ROOM, "messages", "m1"), { text: "modificato", editedAt: serverTimestamp() })
+    );
+  });
+});
+
+describe("member doc", () => {
+  it("il membro cambia solo il proprio nome e l'ultimo letto", async () => {
+    const me = doc(db("alice"), "rooms", ROOM, "members", "alice");
+    await assertSucceeds(updateDoc(me, { name: "Alice" }));
+    await assertSucceeds(updateDoc(me, { lastReadAt: serverTimestamp() }));
+    await assertFails(updateDoc(me, { role: "admin" }));
+    await assertFails(updateDoc(me, { canChat: false }));
+  });
+
+  it("non cambia il doc di un altro", async () => {
+    await assertFails(updateDoc(doc(db("alice"), "rooms", ROOM, "members", "bob"), { name: "Roberto" }));
+  });
+
+  it("i moderatori cambiano gli override di chi ha un ruolo più basso", async () => {
+    await assertSucceeds(updateDoc(doc(db("mod"), "rooms", ROOM, "members", "alice"), { canChat: false }));
+    await assertFails(updateDoc(doc(db("mod"), "rooms", ROOM, "members", "admin"), { canChat: false }));
+  });
+});
+
+describe("voiceMembers", () => {
+  it("ognuno scrive solo il proprio doc", async () => {
+    await assertSucceeds(setDoc(doc(db("alice"), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice")));
+    await assertFails(setDoc(doc(db("alice"), "rooms", ROOM, "voiceMembers", "mod"), voiceMember("mod")));
+  });
+
+  it("senza canCall non si entra", async () => {
+    await assertFails(setDoc(doc(db("bob"), "rooms", ROOM, "voiceMembers", "bob"), voiceMember("bob")));
+  });
+
+  it("lockCalls blocca i membri", async () => {
+    await seed({ lockCalls: true });
+    await assertFails(setDoc(doc(db("alice"), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice")));
+  });
+
+  it("i moderatori tolgono dal vocale solo chi ha un ruolo più basso", async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice"));
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voiceMembers", "admin"), voiceMember("admin"));
+    });
+    await assertSucceeds(deleteDoc(doc(db("mod"), "rooms", ROOM, "voiceMembers", "alice")));
+    await assertFails(deleteDoc(doc(db("mod"), "rooms", ROOM, "voiceMembers", "admin")));
+  });
+
+  it("chi è tolto dal vocale perde canCall e non rientra", async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice"));
+    });
+    // come removeFromVoice in lib/voice.ts
+    const f = db("mod");
+    const batch = writeBatch(f);
+    batch.update(doc(f, "rooms", ROOM, "members", "alice"), { canCall: false });
+    batch.delete(doc(f, "rooms", ROOM, "voiceMembers", "alice"));
+    await assertSucceeds(batch.commit());
+    await assertFails(setDoc(doc(db("alice"), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice")));
+  });
+});
+
+describe("silenziati da un moderatore", () => {
+  // come forceMuteVoice in lib/voice.ts
+  async function forceMute(by: string, uid: string) {
+    const f = db(by);
+    const batch = writeBatch(f);
+    batch.set(doc(f, "rooms", ROOM, "voiceMutes", uid), { uid, byUid: by, at: serverTimestamp() });
+    batch.update(doc(f, "rooms", ROOM, "voiceMembers", uid), { forceMuted: true });
+    await batch.commit();
+  }
+
+  beforeEach(async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voiceMembers", "alice"), voiceMember("alice"));
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voiceMembers", "admin"), voiceMember("admin"));
+    });
+  });
+
+  it("un moderatore silenzia chi ha un ruolo più basso", async () => {
+    await assertSucceeds(forceMute("mod", "alice"));
+    await assertFails(forceMute("mod", "admin"));
+    await assertFails(forceMute("alice", "alice"));
+  });
+
+  it("forceMuted deve seguire voiceMutes", async () => {
+    await assertFails(updateDoc(doc(db("mod"), "rooms", ROOM, "voiceMembers", "alice"), { forceMuted: true }));
+  });
+
+  it("uscire e rientrare non toglie il silenzio", async () => {
+    await forceMute("mod", "alice");
+    const me = doc(db("alice"), "rooms", ROOM, "voiceMembers", "alice");
+    await assertFails(updateDoc(me, { forceMuted: false }));
+    await assertSucceeds(deleteDoc(me));
+    await assertFails(setDoc(me, voiceMember("alice")));
+    await assertSucceeds(setDoc(me, { ...voiceMember("alice"), forceMuted: true }));
+    await assertFails(deleteDoc(doc(db("alice"), "rooms", ROOM, "voiceMutes", "alice")));
+  });
+
+  it("solo un moderatore lo toglie", async () => {
+    await forceMute("mod", "alice");
+    const f = db("mod");
+    const batch = writeBatch(f);
+    batch.delete(doc(f, "rooms", ROOM, "voiceMutes", "alice"));
+    batch.update(doc(f, "rooms", ROOM, "voiceMembers", "alice"), { forceMuted: false });
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe("chiamate", () => {
+  beforeEach(async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const admin = ctx.firestore();
+      await setDoc(doc(admin, "rooms", ROOM, "calls", "c1"), { status: "open", createdByUid: "alice" });
+      await setDoc(doc(admin, "rooms", ROOM, "voice", "current"), { callId: "c1" });
+    });
+  });
+
+  // il vocale vuoto lo chiude il server (lib/voiceServer.ts)
+  it("un membro non chiude la chiamata per tutti", async () => {
+    await assertFails(updateDoc(doc(db("bob"), "rooms", ROOM, "calls", "c1"), { status: "ended", endedAt: serverTimestamp() }));
+    await assertFails(updateDoc(doc(db("alice"), "rooms", ROOM, "calls", "c1"), { status: "ended" }));
+    await assertFails(setDoc(doc(db("bob"), "rooms", ROOM, "voice", "current"), { callId: null }));
+  });
+
+  it("anche chi può chiamare non chiude né sostituisce la chiamata aperta", async () => {
+    const f = db("alice");
+    await assertFails(setDoc(doc(f, "rooms", ROOM, "voice", "current"), { callId: null }));
+    const batch = writeBatch(f);
+    batch.set(doc(f, "rooms", ROOM, "calls", "c2"), { status: "open", createdByUid: "alice" });
+    batch.set(doc(f, "rooms", ROOM, "voice", "current"), { callId: "c2", updatedByUid: "alice" });
+    await assertFails(batch.commit());
+  });
+
+  it("senza chiamata aperta un membro ne apre una nuova, sua", async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "voice", "current"), { callId: null });
+    });
+    const f = db("alice");
+    // una chiamata vecchia non si riapre
+    await assertFails(setDoc(doc(f, "rooms", ROOM, "voice", "current"), { callId: "c1", updatedByUid: "alice" }));
+    const batch = writeBatch(f);
+    batch.set(doc(f, "rooms", ROOM, "calls", "c2"), { status: "open", createdByUid: "alice" });
+    batch.set(doc(f, "rooms", ROOM, "voice", "current"), { callId: "c2", updatedByUid: "alice" });
+    await assertSucceeds(batch.commit());
+  });
+
+  it("i moderatori chiudono la chiamata", async () => {
+    await assertSucceeds(updateDoc(doc(db("mod"), "rooms", ROOM, "calls", "c1"), { status: "ended" }));
+    await assertSucceeds(setDoc(doc(db("mod"), "rooms", ROOM, "voice", "current"), { callId: null }));
+  });
+});
+
+describe("chi non è membro", () => {
+  it("non legge la room né i messaggi", async () => {
+    await assertFails(getDoc(doc(db("stranger"), "rooms", ROOM)));
+    await assertFails(getDoc(doc(db("stranger"), "rooms", ROOM, "messages", "m1")));
+    await assertFails(getDoc(doc(db(null), "rooms", ROOM)));
+  });
+
+  it("non scrive niente", async () => {
+    const s = db("stranger");
+    await assertFails(setDoc(doc(s, "rooms", ROOM, "messages", "m1"), message("stranger")));
+    await assertFails(setDoc(doc(s, "rooms", ROOM, "voiceMembers", "stranger"), voiceMember("stranger")));
+    await assertFails(setDoc(doc(s, "rooms", ROOM, "members", "stranger"), { uid: "stranger", role: "member" }));
+    await assertFails(updateDoc(doc(s, "rooms", ROOM), { name: "Presa" }));
+    await assertFails(deleteDoc(doc(s, "rooms", ROOM, "members", "alice")));
+  });
+});
+
+describe("richieste di ingresso", () => {
+  async function request(uid: string, status: string) {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), "rooms", ROOM, "joinRequests", uid), { uid, name: uid, status });
+    });
+  }
+
+  it("chi aspetta ritira la propria richiesta", async () => {
+    await request("stranger", "pending");
+    await assertSucceeds(deleteDoc(doc(db("stranger"), "rooms", ROOM, "joinRequests", "stranger")));
+  });
+
+  it("chi è stato rifiutato non cancella il rifiuto; un admin sì", async () => {
+    await request("stranger", "rejected");
+    await assertFails(deleteDoc(doc(db("stranger"), "rooms", ROOM, "joinRequests", "stranger")));
+    await assertSucceeds(deleteDoc(doc(db("admin"), "rooms", ROOM, "joinRequests", "stranger")));
+  });
+});
+
+describe("ban", () => {
+  it("un admin banna chi ha un ruolo più basso, non l'owner né un altro admin", async () => {
+    const ban = (uid: string) => ({ uid, name: uid, bannedAt: serverTimestamp(), bannedByUid: "admin" });
+    await assertSucceeds(setDoc(doc(db("admin"), "rooms", ROOM, "bans", "alice"), ban("alice")));
+    await assertFails(setDoc(doc(db("admin"), "rooms", ROOM, "bans", "owner"), ban("owner")));
+    await assertFails(setDoc(doc(db("admin"), "rooms", ROOM, "bans", "admin2"), ban("admin2")));
+  });
+});
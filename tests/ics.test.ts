@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { addDays, startOfDay } from "../lib/calendar";
+import type { NewScoutEvent, ScoutEvent } from "../lib/events";
+import { eventsToIcs, parseIcs, singleOccurrence } from "../lib/ics";
+import { expandOccurrences } from "../lib/recurrence";
+
+// Export e re-import (lib/ics.ts): date, ricorrenza ed eccezioni devono tornare uguali.
+// Il browser di chi esporta è a Roma; il 25 ottobre 2026 finisce l'ora legale.
+process.env.TZ = "Europe/Rome";
+
+function event(patch: Partial<ScoutEvent>): ScoutEvent {
+  return {
+    id: "ev1",
+    roomId: "r1",
+    title: "Riunione",
+    description: "",
+    place: "Sede",
+    start: new Date(2026, 9, 20, 18, 0),
+    end: new Date(2026, 9, 20, 19, 30),
+    allDay: false,
+    timeZone: "Europe/Rome",
+    recurrence: null,
+    cancelled: false,
+    ...patch,
+  };
+}
+
+// evento importato → come lo salva createRoomEvent (fine esclusiva per "tutto il giorno")
+function saved(ev: NewScoutEvent, id: string): ScoutEvent {
+  return event({
+    id,
+    title: ev.title,
+    place: ev.place,
+    description: ev.description,
+    start: ev.start,
+    end: ev.allDay ? addDays(startOfDay(ev.end), 1) : ev.end,
+    allDay: ev.allDay,
+    recurrence: ev.repeat ? { freq: ev.repeat.freq, until: ev.repeat.until, exceptions: ev.repeat.exceptions ?? [] } : null,
+    cancelled: ev.cancelled === true,
+  });
+}
+
+function roundTrip(ev: ScoutEvent) {
+  const imported = parseIcs(eventsToIcs([ev], "Reparto"));
+  expect(imported.skipped).toBe(0);
+  expect(imported.simplified).toBe(0);
+  expect(imported.events).toHaveLength(1);
+  return imported.events[0];
+}
+
+describe("export e import .ics", () => {
+  it("ricorrenza settimanale con TZID attraverso il cambio dell'ora", () => {
+    const ev = event({
+      recurrence: { freq: "weekly", until: new Date(2026, 10, 10), exceptions: ["2026-10-27"] },
+    });
+    const back = roundTrip(ev);
+
+    expect(back.start.getTime()).toBe(ev.start.getTime());
+    expect(back.end.getTime()).toBe(ev.end.getTime());
+    expect(back.allDay).toBe(false);
+    expect(back.repeat).toEqual({ freq: "weekly", until: new Date(2026, 10, 10), exceptions: ["2026-10-27"] });
+
+    // dopo il 25 ottobre le riunioni restano alle 18 (ora di Roma), una ora più tardi in UTC
+    const list = expandOccurrences(saved(back, "ev2"), new Date(2026, 9, 1), new Date(2026, 11, 1));
+    expect(list.map((o) => o.occurrence)).toEqual(["2026-10-20", "2026-11-03", "2026-11-10"]);
+    expect(list.map((o) => [o.start.getHours(), o.start.getUTCHours()])).toEqual([
+      [18, 16],
+      [18, 17],
+      [18, 17],
+    ]);
+  });
+
+  it("il testo ha TZID e UNTIL in UTC", () => {
+    const text = eventsToIcs([event({ recurrence: { freq: "weekly", until: new Date(2026, 10, 10), exceptions: [] } })], "R");
+    expect(text).toContain("DTSTART;TZID=Europe/Rome:20261020T180000");
+    expect(text).toContain("RRULE:FREQ=WEEKLY;UNTIL=20261110T225959Z");
+  });
+
+  it("evento di più giorni tutto il giorno", () => {
+    // campo dal 10 al 12 luglio compresi
+    const ev = event({ start: new Date(2026, 6, 10), end: new Date(2026, 6, 13), allDay: true });
+    const back = roundTrip(ev);
+
+    expect(back.allDay).toBe(true);
+    expect(back.start.getTime()).toBe(ev.start.getTime());
+    // NewScoutEvent: l'ultimo giorno è incluso
+    expect(back.end.getTime()).toBe(new Date(2026, 6, 12).getTime());
+    expect(saved(back, "ev2").end.getTime()).toBe(ev.end.getTime());
+  });
+
+  it("ricorrenza mensile tutto il giorno con UNTIL", () => {
+    const ev = event({
+      start: new Date(2026, 8, 15),
+      end: new Date(2026, 8, 16),
+      allDay: true,
+      recurrence: { freq: "monthly", until: new Date(2026, 11, 15), exceptions: ["2026-11-15"] },
+    });
+    const back = roundTrip(ev);
+
+    expect(back.start.getTime()).toBe(ev.start.getTime());
+    expect(back.repeat).toEqual({ freq: "monthly", until: new Date(2026, 11, 15), exceptions: ["2026-11-15"] });
+  });
+
+  it("ogni due settimane: resta biweekly", () => {
+    const ev = event({ recurrence: { freq: "biweekly", until: null, exceptions: [] } });
+    expect(roundTrip(ev).repeat).toEqual({ freq: "biweekly", until: null, exceptions: [] });
+  });
+
+  it("un evento annullato torna annullato", () => {
+    const back = roundTrip(event({ cancelled: true }));
+    expect(back.cancelled).toBe(true);
+    expect(roundTrip(event({})).cancelled).toBe(false);
+  });
+
+  it("una sola occorrenza esce senza RRULE, alla sua data", () => {
+    const series = event({ recurrence: { freq: "weekly", until: null, exceptions: [] } });
+    const [, second] = expandOccurrences(series, new Date(2026, 9, 1), new Date(2026, 10, 1));
+    const text = eventsToIcs([singleOccurrence(second)], "R");
+    expect(text).not.toContain("RRULE");
+    expect(text).toContain("DTSTART;TZID=Europe/Rome:20261027T180000");
+    expect(text).toContain("UID:ev1-2026-10-27@r1.scouthub");
+  });
+
+  it("COUNT diventa UNTIL e sopravvive a un secondo giro", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=Europe/Rome:20261020T180000",
+      "DTEND;TZID=Europe/Rome:20261020T193000",
+      "SUMMARY:Riunione",
+      "RRULE:FREQ=WEEKLY;COUNT=4",
+      "EXDATE;TZID=Europe/Rome:20261027T180000,20261103T180000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const first = parseIcs(text).events[0];
+    expect(first.repeat).toEqual({
+      freq: "weekly",
+      until: new Date(2026, 10, 10),
+      exceptions: ["2026-10-27", "2026-11-03"],
+    });
+
+    const again = roundTrip(saved(first, "ev2"));
+    expect(again.start.getTime()).toBe(first.start.getTime());
+    expect(again.end.getTime()).toBe(first.end.getTime());
+    expect(again.repeat).toEqual(first.repeat);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFS, reminderDue, reminderPayload } from "../lib/notifyRules";
+import { expandOccurrences, type Recurrence } from "../lib/recurrence";
+
+// Promemoria calcolati dal server (lib/notifyServer.ts), che gira in UTC: le occorrenze
+// si contano nel fuso dell'evento. Il 25 ottobre 2026 a Roma finisce l'ora legale.
+process.env.TZ = "UTC";
+
+const ROOM = { id: "r1", name: "Reparto" };
+
+// riunione del martedì alle 18 ora di Roma (16:00 UTC con l'ora legale)
+function meeting(recurrence: Recurrence) {
+  return {
+    id: "ev1",
+    title: "Riunione",
+    place: "Sede",
+    start: new Date(Date.UTC(2026, 9, 20, 16, 0)),
+    end: new Date(Date.UTC(2026, 9, 20, 17, 30)),
+    allDay: false,
+    timeZone: "Europe/Rome",
+    recurrence,
+  };
+}
+
+describe("promemoria attraverso il cambio dell'ora", () => {
+  const ev = meeting({ freq: "weekly", until: new Date(Date.UTC(2026, 10, 9, 23, 0)), exceptions: ["2026-10-27"] });
+
+  it("le occorrenze restano alle 18 di Roma", () => {
+    const list = expandOccurrences(ev, new Date(Date.UTC(2026, 9, 1)), new Date(Date.UTC(2026, 11, 1)), ev.timeZone);
+    expect(list.map((o) => o.occurrence)).toEqual(["2026-10-20", "2026-11-03", "2026-11-10"]);
+    expect(list.map((o) => o.start.toISOString())).toEqual([
+      "2026-10-20T16:00:00.000Z",
+      "2026-11-03T17:00:00.000Z",
+      "2026-11-10T17:00:00.000Z",
+    ]);
+    expect(list[1].end.toISOString()).toBe("2026-11-03T18:30:00.000Z");
+  });
+
+  it("il promemoria scatta un'ora prima dell'ora giusta e la scrive bene", () => {
+    const [occ] = expandOccurrences(ev, new Date(Date.UTC(2026, 10, 3)), new Date(Date.UTC(2026, 10, 4)), ev.timeZone);
+    expect(reminderDue(occ.start, DEFAULT_PREFS, Date.UTC(2026, 10, 3, 15, 0))).toBe(false);
+    expect(reminderDue(occ.start, DEFAULT_PREFS, Date.UTC(2026, 10, 3, 16, 0))).toBe(true);
+    expect(reminderPayload(ROOM, occ).body).toContain("18:00");
+  });
+
+  it("mensile: stesso giorno e stessa ora, salta i mesi senza quel giorno", () => {
+    const monthly = {
+      ...meeting({ freq: "monthly", until: null, exceptions: [] }),
+      start: new Date(Date.UTC(2026, 7, 31, 16, 0)),
+      end: new Date(Date.UTC(2026, 7, 31, 17, 0)),
+    };
+    const list = expandOccurrences(monthly, new Date(Date.UTC(2026, 7, 1)), new Date(Date.UTC(2027, 0, 1)), "Europe/Rome");
+    expect(list.map((o) => o.start.toISOString())).toEqual([
+      "2026-08-31T16:00:00.000Z",
+      "2026-10-31T17:00:00.000Z",
+      "2026-12-31T17:00:00.000Z",
+    ]);
+  });
+
+  it("senza fuso si conta in UTC e l'ora scivola", () => {
+    const list = expandOccurrences(ev, new Date(Date.UTC(2026, 10, 3)), new Date(Date.UTC(2026, 10, 4)));
+    expect(list[0].start.toISOString()).toBe("2026-11-03T16:00:00.000Z");
+  });
+});
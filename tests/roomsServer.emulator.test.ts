@@ -0,0 +1,183 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Creazione room, ingresso con codice e rate limit (lib/roomsServer.ts, lib/apiServer.ts) con l'Admin SDK
+// contro l'emulatore di Firestore (npm test lo avvia e imposta FIRESTORE_EMULATOR_HOST).
+
+const PROJECT = "demo-scouthub";
+
+// prima degli import: lib/firebaseAdmin.ts legge il progetto quando si carica
+const randomInt = vi.hoisted(() => {
+  process.env.FIREBASE_PROJECT_ID = "demo-scouthub";
+  return vi.fn();
+});
+
+// i codici escono da randomInt: un test li sceglie per far collidere il primo
+vi.mock("crypto", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("crypto")>();
+  randomInt.mockImplementation((max: number) => actual.randomInt(max));
+  return { ...actual, randomInt };
+});
+
+import { rateLimit, RateLimitError } from "../lib/apiServer";
+import { adminDb } from "../lib/firebaseAdmin";
+import { CODE_LENGTH, createInvite, createRoom, joinWithCode } from "../lib/roomsServer";
+
+const owner = { uid: "owner", name: "Owner" };
+const alice = { uid: "alice", name: "Alice" };
+const bob = { uid: "bob", name: "Bob" };
+
+const roomRef = (roomId: string) => adminDb.collection("rooms").doc(roomId);
+
+beforeEach(async () => {
+  await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT}/databases/(default)/documents`,
+    { method: "DELETE" }
+  );
+});
+
+describe("createRoom", () => {
+  it("crea room, owner, codice principale e voce nell'elenco dell'owner", async () => {
+    const room = await createRoom(owner, "  Reparto  ");
+    expect(room.name).toBe("Reparto");
+    expect(room.joinCode).toMatch(new RegExp(`^[A-Z2-9]{${CODE_LENGTH}}$`));
+
+    const ref = roomRef(room.roomId);
+    expect((await ref.get()).get("adminUid")).toBe("owner");
+    expect((await ref.collection("members").doc("owner").get()).get("role")).toBe("owner");
+    expect((await adminDb.collection("joinCodes").doc(room.joinCode).get()).get("roomId")).toBe(room.roomId);
+    expect((await ref.collection("invites").doc(room.joinCode).get()).get("main")).toBe(true);
+    expect((await adminDb.doc(`users/owner/rooms/${room.roomId}`).get()).get("joinCode")).toBe(room.joinCode);
+  });
+
+  it("salta i codici già presi", async () => {
+    await adminDb.collection("joinCodes").doc("AAAAAA").create({ roomId: "altra" });
+    // "AAAAAA" (già preso), poi "BBBBBB"
+    for (let i = 0; i < CODE_LENGTH; i++) randomInt.mockReturnValueOnce(0);
+    for (let i = 0; i < CODE_LENGTH; i++) randomInt.mockReturnValueOnce(1);
+
+    const room = await createRoom(owner, "Reparto");
+    expect(room.joinCode).toBe("BBBBBB");
+    expect((await adminDb.collection("joinCodes").doc("AAAAAA").get()).get("roomId")).toBe("altra");
+  });
+});
+
+describe("joinWithCode", () => {
+  it("entra come membro con i permessi di default e conta l'ingresso una volta", async () => {
+    const room = await createRoom(owner, "Reparto");
+    await roomRef(room.roomId).update({ defaultCanChat: false });
+
+    expect(await joinWithCode(alice, room.joinCode)).toMatchObject({ roomId: room.roomId, pending: false });
+    const member = await roomRef(room.roomId).collection("members").doc("alice").get();
+    expect(member.get("role")).toBe("member");
+    expect(member.get("canChat")).toBe(false);
+
+    // chi è già dentro rientra senza contare un altro ingresso
+    await joinWithCode(alice, room.joinCode);
+    expect((await roomRef(room.roomId).collection("invites").doc(room.joinCode).get()).get("uses")).toBe(1);
+  });
+
+  it("codice sconosciuto", async () => {
+    await expect(joinWithCode(alice, "ZZZZZZ")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("chi è bannato non entra", async () => {
+    const room = await createRoom(owner, "Reparto");
+    await roomRef(room.roomId).collection("bans").doc("alice").set({ uid: "alice", bannedByUid: "owner" });
+    await expect(joinWithCode(alice, room.joinCode)).rejects.toMatchObject({ status: 403 });
+    expect((await roomRef(room.roomId).collection("members").doc("alice").get()).exists).toBe(false);
+  });
+
+  it("room archiviata o con gli ingressi chiusi", async () => {
+    const room = await createRoom(owner, "Reparto");
+    await roomRef(room.roomId).update({ joinDisabled: true });
+    await expect(joinWithCode(alice, room.joinCode)).rejects.toMatchObject({ status: 403 });
+    await roomRef(room.roomId).update({ joinDisabled: false, archived: true });
+    await expect(joinWithCode(alice, room.joinCode)).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("inviti", () => {
+  it("un invito scaduto non vale più", async () => {
+    const room = await createRoom(owner, "Reparto");
+    const { code } = await createInvite(owner, room.roomId, {
+      label: "Uscita",
+      expiresAt: new Date(Date.now() + 60_000),
+      maxUses: null,
+    });
+    await roomRef(room.roomId)
+      .collection("invites")
+      .doc(code)
+      .update({ expiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+    await expect(joinWithCode(alice, code)).rejects.toMatchObject({ status: 410 });
+  });
+
+  it("maxUses: gli ingressi oltre il massimo sono rifiutati", async () => {
+    const room = await createRoom(owner, "Reparto");
+    const { code } = await createInvite(owner, room.roomId, { label: "Uno solo", expiresAt: null, maxUses: 1 });
+
+    await joinWithCode(alice, code);
+    await expect(joinWithCode(bob, code)).rejects.toMatchObject({ status: 410 });
+    const invite = await roomRef(room.roomId).collection("invites").doc(code).get();
+    expect(invite.get("uses")).toBe(1);
+  });
+
+  it("solo gli admin creano inviti", async () => {
+    const room = await createRoom(owner, "Reparto");
+    await joinWithCode(alice, room.joinCode);
+    await expect(
+      createInvite(alice, room.roomId, { label: "Mio", expiresAt: null, maxUses: null })
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("approvazione", () => {
+  it("con requireApproval si aspetta un admin; il rifiuto resta", async () => {
+    const room = await createRoom(owner, "Reparto");
+    const ref = roomRef(room.roomId);
+    await ref.update({ requireApproval: true });
+
+    expect(await joinWithCode(bob, room.joinCode)).toMatchObject({ pending: true });
+    expect((await ref.collection("joinRequests").doc("bob").get()).get("status")).toBe("pending");
+    expect((await ref.collection("members").doc("bob").get()).exists).toBe(false);
+
+    // richiesta già fatta: niente secondo ingresso contato
+    expect(await joinWithCode(bob, room.joinCode)).toMatchObject({ pending: true });
+    expect((await ref.collection("invites").doc(room.joinCode).get()).get("uses")).toBe(1);
+
+    await ref.collection("joinRequests").doc("bob").update({ status: "rejected" });
+    await expect(joinWithCode(bob, room.joinCode)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("approvato (membro creato dall'admin) rientra senza attesa", async () => {
+    const room = await createRoom(owner, "Reparto");
+    const ref = roomRef(room.roomId);
+    await ref.update({ requireApproval: true });
+    await joinWithCode(bob, room.joinCode);
+
+    // come approveJoinRequest in lib/rooms.ts
+    await ref.collection("members").doc("bob").set({ uid: "bob", name: "Bob", role: "member" });
+    await ref.collection("joinRequests").doc("bob").delete();
+    expect(await joinWithCode(bob, room.joinCode)).toMatchObject({ pending: false });
+  });
+});
+
+describe("rateLimit", () => {
+  it("oltre il massimo nella finestra: 429 con Retry-After", async () => {
+    await rateLimit("join:alice", 2, 60_000);
+    await rateLimit("join:alice", 2, 60_000);
+    const err = await rateLimit("join:alice", 2, 60_000).catch((e) => e);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err.status).toBe(429);
+    expect(err.retryAfter).toBeGreaterThan(0);
+
+    // altre chiavi hanno il loro conto
+    await expect(rateLimit("join:bob", 2, 60_000)).resolves.toBeUndefined();
+  });
+
+  it("a finestra scaduta si riparte da capo", async () => {
+    await rateLimit("create:alice", 1, 60_000);
+    await adminDb.collection("rateLimits").doc("create:alice").update({ resetAt: new Date(Date.now() - 1000) });
+    await expect(rateLimit("create:alice", 1, 60_000)).resolves.toBeUndefined();
+  });
+});
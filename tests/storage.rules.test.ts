@@ -0,0 +1,70 @@
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, setDoc } from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+// Allegati (storage.rules): le regole leggono room e member doc dall'emulatore di Firestore.
+
+const ROOM = "r1";
+let env: RulesTestEnvironment;
+
+async function seed(room: Record<string, unknown> = {}) {
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    await setDoc(doc(db, "rooms", ROOM), { name: "Reparto", adminUid: "owner", lockChat: false, ...room });
+    await setDoc(doc(db, "rooms", ROOM, "members", "mod"), { uid: "mod", role: "moderator" });
+    await setDoc(doc(db, "rooms", ROOM, "members", "alice"), { uid: "alice", role: "member" });
+    await setDoc(doc(db, "rooms", ROOM, "members", "bob"), { uid: "bob", role: "member", canChat: false });
+  });
+}
+
+function upload(uid: string, contentType = "text/plain") {
+  const file = env.authenticatedContext(uid).storage().ref(`rooms/${ROOM}/attachments/${uid}/note.txt`);
+  return file.put(new TextEncoder().encode("ciao"), { contentType }).then(() => {});
+}
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-scouthub",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.clearStorage();
+  await seed();
+});
+
+describe("allegati", () => {
+  it("chi può scrivere in chat carica nella propria cartella", async () => {
+    await assertSucceeds(upload("alice"));
+    await assertFails(upload("alice", "application/x-msdownload"));
+  });
+
+  it("canChat false blocca il caricamento", async () => {
+    await assertFails(upload("bob"));
+  });
+
+  it("lockChat blocca i membri ma non i moderatori", async () => {
+    await seed({ lockChat: true });
+    await assertFails(upload("alice"));
+    await assertSucceeds(upload("mod"));
+  });
+
+  it("niente caricamenti nelle room archiviate né da chi non è membro", async () => {
+    await assertFails(upload("stranger"));
+    await seed({ archived: true });
+    await assertFails(upload("mod"));
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// test in tests/; i *.rules.test.ts e i *.emulator.test.ts vogliono gli emulatori (npm test li avvia)
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // un solo emulatore per tutti: i file non girano in parallelo
+    fileParallelism: false,
+    testTimeout: 20000,
+  },
+});